@@ -0,0 +1,11 @@
+import { Context } from '@koishijs/client';
+import Page from './page.vue';
+
+export default (ctx: Context) => {
+  ctx.page({
+    name: '聊天分析',
+    path: '/chat-analyse',
+    authority: 4,
+    component: Page,
+  });
+};
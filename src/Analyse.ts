@@ -1,8 +1,32 @@
-import { Context, Command, h, Time } from 'koishi';
+import { Context, Command, Session, h, Time } from 'koishi';
 import { Renderer } from './Renderer';
 import { Config, parseQueryScope, generateTitle } from './index';
 import { Jieba } from '@node-rs/jieba';
 import { dict } from '@node-rs/jieba/dict';
+import { stopWordList } from './stopwords';
+import { Metrics } from './Metrics';
+import { getHourlyCutoff } from './Stat';
+import { matchPlatform } from './Identity';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vm from 'vm';
+
+/** 未指定词频的自定义词语使用的默认词频，足以使其在分词时优先成词。 */
+const DEFAULT_WORD_FREQ = 10000;
+const USER_DICT_FILE = 'user_dict.txt';
+const STOP_WORDS_FILE = 'stop_words.txt';
+/** 关键词趋势图的最大数据点数。 */
+const MAX_TREND_POINTS = 168;
+/** 关键词排行中正则表达式的最大长度。 */
+const MAX_REGEX_LENGTH = 64;
+/** 关键词排行使用正则表达式时最多匹配的记录数，超出时仅统计最近的记录。 */
+const MAX_REGEX_RECORDS = 20000;
+/** 关键词排行使用正则表达式时的匹配时间上限，防止回溯过多的表达式阻塞事件循环。 */
+const REGEX_TIMEOUT = 2 * Time.second;
+/** 在独立上下文中统计每条文本的匹配次数，使匹配过程可以被超时中断。 */
+const REGEX_SCRIPT = new vm.Script('texts.map(text => (text.match(pattern) || []).length)');
+/** 匹配原始记录中非文本消息的占位标记。 */
+const EXCLUSION_REGEX = /\[(face|file|forward|img|gif|audio|video|json|rps|markdown|dice|at:.*?)\]/g;
 
 export interface WordCloudData {
   title: string;
@@ -37,11 +61,17 @@ function cosineSimilarity(vecA: number[], vecB: number[]): number {
  */
 export class Analyse {
   private renderer: Renderer;
-  private readonly jieba: Jieba | null = null;
+  private jieba: Jieba | null = null;
+  private stopWords = new Set<string>();
+  private dataDir: string;
 
-  constructor(private ctx: Context, private config: Config) {
-    this.renderer = new Renderer(ctx);
-    if (config.enableWordCloud) this.jieba = Jieba.withDict(dict);
+  constructor(private ctx: Context, private config: Config, metrics?: Metrics) {
+    this.renderer = new Renderer(ctx, config, metrics);
+    this.dataDir = path.join(this.ctx.baseDir, 'data', 'chat-analyse');
+    if (config.enableWordCloud) {
+      this.jieba = Jieba.withDict(dict);
+      this.loadDictionaries();
+    }
 
     if (this.config.enableOriRecord && this.config.cacheRetentionDays > 0) {
       this.ctx.cron('0 0 * * *', async () => {
@@ -52,6 +82,147 @@ export class Analyse {
     }
   }
 
+  /**
+   * @private @method readWordFile
+   * @description 读取按行存储的词语文件，忽略空行和以 # 开头的注释行，文件不存在时返回空数组。
+   * @param filepath - 文件路径。
+   * @returns 去除首尾空白后的行数组。
+   */
+  private async readWordFile(filepath: string): Promise<string[]> {
+    const text = await fs.readFile(filepath, 'utf-8').catch(() => '');
+    return text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  }
+
+  /**
+   * @private @method parseDictLine
+   * @description 将词典行规范为 “词语 词频 [词性]” 的格式。缺省词频时补全为默认词频，仅有词性时在其前补全词频。
+   * @param line - 词典行。
+   * @returns 规范后的词典行，格式无法识别时返回 null。
+   */
+  private parseDictLine(line: string): string | null {
+    const [word, second, third, ...rest] = line.split(/\s+/);
+    if (rest.length) return null;
+    if (second === undefined) return `${word} ${DEFAULT_WORD_FREQ}`;
+    if (/^\d+$/.test(second)) return third === undefined ? `${word} ${second}` : `${word} ${second} ${third}`;
+    if (third === undefined) return `${word} ${DEFAULT_WORD_FREQ} ${second}`;
+    return null;
+  }
+
+  /**
+   * @private @method loadDictionaries
+   * @description 重新构建分词器，依次加载内置词典、配置中的自定义词典和运行时添加的词语，并刷新停用词表。
+   */
+  private async loadDictionaries() {
+    try {
+      const jieba = Jieba.withDict(dict);
+      const dictFiles = [...this.config.dictFiles.map(file => path.resolve(this.ctx.baseDir, file)), path.join(this.dataDir, USER_DICT_FILE)];
+      for (const file of dictFiles) {
+        const lines = await this.readWordFile(file);
+        const entries = lines.map(line => this.parseDictLine(line));
+        const invalid = lines.filter((_, index) => !entries[index]);
+        if (invalid.length) this.ctx.logger.warn(`词典 ${file} 中有 ${invalid.length} 行格式无效，已跳过: ${invalid.slice(0, 5).join(', ')}`);
+        const validEntries = entries.filter(Boolean);
+        if (!validEntries.length) continue;
+        try {
+          jieba.loadDict(Buffer.from(validEntries.join('\n') + '\n'));
+        } catch (error) {
+          this.ctx.logger.warn(`加载词典 ${file} 失败:`, error);
+        }
+      }
+      this.jieba = jieba;
+
+      const stopWords = new Set(await this.readWordFile(path.join(this.dataDir, STOP_WORDS_FILE)));
+      if (this.config.enableStopWords) for (const word of stopWordList.split(/\s+/)) if (word) stopWords.add(word);
+      this.stopWords = stopWords;
+    } catch (error) {
+      this.ctx.logger.error('加载自定义词典失败:', error);
+    }
+  }
+
+  /**
+   * @private @method segment
+   * @description 清除消息中的非文本标记后进行分词，并过滤单字、纯数字和屏蔽词。
+   * @param contents - 原始记录的内容数组。
+   * @returns 过滤后的词语数组。
+   */
+  private segment(contents: string[]): string[] {
+    const excludeWords = new Set(this.config.excludeWords.split(',').map(w => w.trim().toLowerCase()).filter(Boolean));
+    const allText = contents.map(c => c.replace(EXCLUSION_REGEX, '')).join(' ');
+
+    return this.jieba.cut(allText).filter(w => {
+      const trimmedWord = w.trim();
+      if (trimmedWord.length <= 1) return false;
+      if (/^\d+$/.test(trimmedWord)) return false;
+      if (excludeWords.has(trimmedWord.toLowerCase())) return false;
+      if (this.stopWords.has(trimmedWord)) return false;
+      return true;
+    });
+  }
+
+  /**
+   * @public @method countWords
+   * @description 对原始记录分词并统计词频，结果按词频降序排列。
+   * @param contents - 原始记录的内容数组。
+   * @returns 由词语和词频组成的数组。
+   */
+  public countWords(contents: string[]): [string, number][] {
+    if (!this.jieba) return [];
+    const wordCounts = this.segment(contents).reduce((map, word) => map.set(word, (map.get(word) || 0) + 1), new Map<string, number>());
+    return Array.from(wordCounts.entries()).sort((a, b) => b[1] - a[1]);
+  }
+
+  /**
+   * @private @method renderDistinctive
+   * @description 以群组内每位用户的发言为一篇文档计算 TF-IDF，生成指定用户的特色词云并附上签名词。
+   * @param session - 当前会话对象。
+   * @param options - 命令选项。
+   * @returns 出错时返回提示文本。
+   */
+  private async renderDistinctive(session: Session, options: { user?: string; guild?: string; hours?: number; text?: boolean }): Promise<string | void> {
+    const guildId = options.guild || session.guildId || session.channelId;
+    if (!guildId) return '请指定查询范围';
+    const scope = await parseQueryScope(this.ctx, session, { user: options.user || session.userId, guild: guildId });
+    if (scope.error) return scope.error;
+
+    const guildUsers = await this.ctx.database.get('analyse_user', { platform: matchPlatform(session.platform), channelId: guildId }, ['uid']);
+    const targetUids = new Set(scope.uids);
+    const since = new Date(Date.now() - options.hours * Time.hour);
+    const records = await this.ctx.database.get('analyse_cache', { uid: { $in: guildUsers.map(u => u.uid) }, recalled: false, timestamp: { $gte: since } }, ['uid', 'content']);
+    if (!records.some(r => targetUids.has(r.uid))) return '暂无统计数据';
+
+    // 指定用户的所有关联账号合并为同一篇文档
+    const documents = new Map<number | 'self', string[]>();
+    for (const record of records) {
+      const key = targetUids.has(record.uid) ? 'self' : record.uid;
+      if (!documents.has(key)) documents.set(key, []);
+      documents.get(key).push(record.content);
+    }
+    if (documents.size < 2) return '群组语料不足';
+
+    const documentFrequency = new Map<string, number>();
+    let selfCounts = new Map<string, number>();
+    for (const [key, contents] of documents) {
+      const counts = this.segment(contents).reduce((map, word) => map.set(word, (map.get(word) || 0) + 1), new Map<string, number>());
+      for (const word of counts.keys()) documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+      if (key === 'self') selfCounts = counts;
+    }
+    if (!selfCounts.size) return '暂无有效词语';
+
+    const documentCount = documents.size;
+    const scores = Array.from(selfCounts.entries())
+      .map(([word, count]): [string, number] => [word, count * Math.log((documentCount + 1) / documentFrequency.get(word))])
+      .sort((a, b) => b[1] - a[1]);
+    const limitedScores = this.config.maxWords > 0 ? scores.slice(0, this.config.maxWords) : scores;
+    // 将得分归一化到 1-100，便于词云按对数缩放字号
+    const maxScore = Math.max(limitedScores[0]?.[1] ?? 0, Number.EPSILON);
+    const wordList = limitedScores.map(([word, score]): [string, number] => [word, 1 + 99 * score / maxScore]);
+
+    const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '特色词云', timeRange: options.hours });
+    const imageGenerator = this.renderer.renderWordCloud({ title, time: new Date(), words: wordList }, this.config, { text: options.text, guildId: session.guildId });
+    for await (const output of imageGenerator) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
+    await session.send(`签名词：${wordList.slice(0, 10).map(item => item[0]).join('、')}`);
+  }
+
   /**
    * @public @method registerCommands
    * @description 在主命令下注册子命令。
@@ -60,14 +231,18 @@ export class Analyse {
   public registerCommands(cmd: Command) {
     if (this.config.enableWordCloud) {
       cmd.subcommand('wordcloud', '生成词云')
-        .usage('基于聊天记录生成词云图，可指定范围，默认当前群组。')
+        .usage('基于聊天记录生成词云图，可指定范围，默认当前群组。特色词模式下以 TF-IDF 对比群组语料，找出指定用户（默认自己）的特色词。')
         .option('guild', '-g <guildId:string> 指定群组')
         .option('user', '-u <user:string> 指定用户')
         .option('hours', '-t <hours:number> 指定时长', { fallback: 24 })
+        .option('distinctive', '-d 特色词模式')
+        .option('text', '--text 以文本输出')
         .action(async ({ session, options }) => {
           try {
             if (!this.jieba) return 'Jieba 分词服务未就绪';
 
+            if (options.distinctive) return await this.renderDistinctive(session, options);
+
             const scope = await parseQueryScope(this.ctx, session, options);
             if (scope.error) return scope.error;
 
@@ -75,34 +250,22 @@ export class Analyse {
             if (!scope.uids?.length) return '暂无用户数据';
 
             const since = new Date(Date.now() - options.hours * Time.hour);
-            const records = await this.ctx.database.get('analyse_cache', { uid: { $in: scope.uids }, timestamp: { $gte: since } }, ['content']);
+            const records = await this.ctx.database.get('analyse_cache', { uid: { $in: scope.uids }, recalled: false, timestamp: { $gte: since } }, ['content']);
 
             if (!records.length) return '暂无统计数据';
 
-            const excludeWords = new Set(this.config.excludeWords.split(',').map(w => w.trim().toLowerCase()).filter(Boolean));
-            const exclusionRegex = /\[(face|file|forward|img|gif|audio|video|json|rps|markdown|dice|at:.*?)\]/g;
-            const allText = records.map(r => r.content.replace(exclusionRegex, '')).join(' ');
-
-            const words = this.jieba.cut(allText).filter(w => {
-              const trimmedWord = w.trim();
-              if (trimmedWord.length <= 1) return false;
-              if (/^\d+$/.test(trimmedWord)) return false;
-              if (excludeWords.has(trimmedWord.toLowerCase())) return false;
-              return true;
-            });
+            const wordList = this.countWords(records.map(r => r.content));
 
-            if (!words.length) return '暂无有效词语';
+            if (!wordList.length) return '暂无有效词语';
 
-            const wordCounts = words.reduce((map, word) => map.set(word, (map.get(word) || 0) + 1), new Map<string, number>());
-            const wordList = Array.from(wordCounts.entries()).sort((a, b) => b[1] - a[1]);
             const limitedWordList = this.config.maxWords > 0 ? wordList.slice(0, this.config.maxWords) : wordList;
 
             const topWordsPreview = limitedWordList.slice(0, 10).map(item => item[0]).join(', ');
             session.send(`正在基于 ${wordList.length} 个词生成词云：${topWordsPreview}...`);
 
             const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '词云', timeRange: options.hours });
-            const imageGenerator = this.renderer.renderWordCloud({ title, time: new Date(), words: limitedWordList }, this.config);
-            for await (const buffer of imageGenerator) await session.send(h.image(buffer, 'image/png'));
+            const imageGenerator = this.renderer.renderWordCloud({ title, time: new Date(), words: limitedWordList }, this.config, { text: options.text, guildId: session.guildId });
+            for await (const output of imageGenerator) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
 
           } catch (error) {
             this.ctx.logger.error('生成词云图片失败:', error);
@@ -111,17 +274,175 @@ export class Analyse {
         });
     }
 
+    if (this.config.enableWordCloud) {
+      cmd.subcommand('.dict [...words:string]', '管理词典', { authority: 4 })
+        .usage('向自定义词典添加词语，使其在分词时不被拆分。不指定词语时列出已添加的词语。')
+        .option('remove', '-r 移除词语')
+        .option('stop', '-s 管理停用词')
+        .action(async ({ options }, ...words) => {
+          const filename = options.stop ? STOP_WORDS_FILE : USER_DICT_FILE;
+          const listName = options.stop ? '停用词' : '自定义词';
+          const filepath = path.join(this.dataDir, filename);
+
+          try {
+            const existing = await this.readWordFile(filepath);
+            if (!words.length) return existing.length ? `${listName}列表:\n${existing.join(', ')}` : `暂无${listName}`;
+
+            const targets = new Set(words.map(w => w.trim()).filter(Boolean));
+            // 按行首词语匹配，兼容手动编辑时附带词频或词性的行
+            const existingWords = new Set(existing.map(line => line.split(/\s+/)[0]));
+            const updated = options.remove
+              ? existing.filter(line => !targets.has(line.split(/\s+/)[0]))
+              : [...existing, ...[...targets].filter(w => !existingWords.has(w))];
+            if (updated.length === existing.length) return options.remove ? `未找到相关${listName}` : `${listName}已存在`;
+
+            await fs.mkdir(this.dataDir, { recursive: true });
+            await fs.writeFile(filepath, updated.join('\n') + '\n');
+            await this.loadDictionaries();
+            return `已${options.remove ? '移除' : '添加'} ${Math.abs(updated.length - existing.length)} 个${listName}`;
+          } catch (error) {
+            this.ctx.logger.error('更新词典失败:', error);
+            return '更新词典失败';
+          }
+        });
+    }
+
+    if (this.config.enableTrend) {
+      cmd.subcommand('trend <...keywords:string>', '关键词趋势')
+        .usage('统计关键词在聊天记录中随时间出现的次数，可同时对比多个关键词，默认当前群组。')
+        .option('guild', '-g <guildId:string> 指定群组')
+        .option('user', '-u <user:string> 指定用户')
+        .option('duration', '-n <units:number> 指定时长', { fallback: 24 })
+        .option('days', '-d 以天为粒度')
+        .option('text', '--text 以文本输出')
+        .action(async ({ session, options }, ...keywords) => {
+          keywords = [...new Set(keywords.map(k => k.trim()).filter(Boolean))];
+          if (!keywords.length) return '请指定关键词';
+          const points = Math.floor(options.duration);
+          if (!(points > 0)) return '时长必须大于 0';
+          if (points > MAX_TREND_POINTS) return `时长不能超过 ${MAX_TREND_POINTS}`;
+
+          try {
+            const scope = await parseQueryScope(this.ctx, session, options);
+            if (scope.error) return scope.error;
+
+            const timeUnit = options.days ? Time.day : Time.hour;
+            const until = new Date();
+            if (options.days) until.setHours(24, 0, 0, 0);
+            else until.setMinutes(60, 0, 0);
+            const since = new Date(until.getTime() - points * timeUnit);
+
+            const query: any = { recalled: false, timestamp: { $gte: since, $lt: until } };
+            if (scope.uids) query.uid = { $in: scope.uids };
+            const records = await this.ctx.database.get('analyse_cache', query, ['content', 'timestamp']);
+            if (!records.length) return '暂无统计数据';
+
+            const lowerKeywords = keywords.map(k => k.toLowerCase());
+            const series = keywords.map(name => ({ name, data: Array(points).fill(0) }));
+            for (const record of records) {
+              const index = points - 1 - Math.floor((until.getTime() - record.timestamp.getTime()) / timeUnit);
+              if (index < 0 || index >= points) continue;
+              const text = record.content.replace(EXCLUSION_REGEX, '').toLowerCase();
+              lowerKeywords.forEach((keyword, i) => {
+                series[i].data[index] += text.split(keyword).length - 1;
+              });
+            }
+            if (series.every(s => s.data.every(v => v === 0))) return '暂无相关记录';
+
+            const labels = Array.from({ length: points }, (_, i) => {
+              const pointTime = new Date(until.getTime() - (points - i) * timeUnit);
+              return options.days ? `${pointTime.getMonth() + 1}/${pointTime.getDate()}` : String(pointTime.getHours());
+            });
+            const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '关键词趋势', timeRange: points, timeUnit: options.days ? '天' : '小时' });
+            const imageGenerator = this.renderer.renderLineChart({ title, time: new Date(), series, labels }, { text: options.text, guildId: session.guildId });
+            for await (const output of imageGenerator) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
+          } catch (error) {
+            this.ctx.logger.error('生成关键词趋势图片失败:', error);
+            return '图片渲染失败';
+          }
+        });
+    }
+
+    if (this.config.enableWordRank) {
+      cmd.subcommand('wordrank <keyword:text>', '关键词排行')
+        .usage('统计谁说某个词最多，可使用正则表达式，默认当前群组。')
+        .option('guild', '-g <guildId:string> 指定群组')
+        .option('duration', '-n <hours:number> 指定时长', { fallback: 24 })
+        .option('limit', '-l <count:number> 限制数量')
+        .option('regex', '-r 使用正则表达式', { authority: 3 })
+        .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
+        .action(async ({ session, options }, keyword) => {
+          keyword = keyword?.trim();
+          if (!keyword) return '请指定关键词';
+          if (options.regex && keyword.length > MAX_REGEX_LENGTH) return `正则表达式不能超过 ${MAX_REGEX_LENGTH} 个字符`;
+
+          let pattern: RegExp;
+          try {
+            pattern = new RegExp(options.regex ? keyword : keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+          } catch {
+            return '正则表达式无效';
+          }
+          if (pattern.test('')) return '关键词不能匹配空文本';
+
+          try {
+            const scope = await parseQueryScope(this.ctx, session, options);
+            if (scope.error) return scope.error;
+
+            const since = new Date(Date.now() - options.duration * Time.hour);
+            const query: any = { recalled: false, timestamp: { $gte: since } };
+            if (scope.uids) query.uid = { $in: scope.uids };
+            const records = await this.ctx.database.get('analyse_cache', query, {
+              fields: ['uid', 'content'],
+              ...(options.regex ? { sort: { timestamp: 'desc' }, limit: MAX_REGEX_RECORDS } : {}),
+            });
+            if (!records.length) return '暂无统计数据';
+
+            const texts = records.map(record => record.content.replace(EXCLUSION_REGEX, ''));
+            let matchCounts: number[];
+            try {
+              matchCounts = options.regex
+                ? REGEX_SCRIPT.runInNewContext({ texts, pattern }, { timeout: REGEX_TIMEOUT })
+                : texts.map(text => text.match(pattern)?.length ?? 0);
+            } catch (error) {
+              if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return '正则表达式匹配超时，请简化表达式';
+              throw error;
+            }
+            const counts = new Map<number, number>();
+            records.forEach((record, index) => {
+              if (matchCounts[index]) counts.set(record.uid, (counts.get(record.uid) || 0) + matchCounts[index]);
+            });
+            if (!counts.size) return '暂无相关记录';
+
+            const stats = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+            const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
+            const users = await this.ctx.database.get('analyse_user', { uid: { $in: limitedStats.map(([uid]) => uid) } }, ['uid', 'userName']);
+            const userNameMap = new Map(users.map(u => [u.uid, u.userName]));
+            const total = stats.reduce((sum, [, count]) => sum + count, 0);
+            const list = limitedStats.map(([uid, count]) => [userNameMap.get(uid) || `UID ${uid}`, count, `${(count / total * 100).toFixed(2)}%`]);
+
+            const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '排行', timeRange: options.duration, subtype: keyword });
+            const imageGenerator = this.renderer.renderList({ title, time: new Date(), total, list }, ['用户', '次数', '占比'], { text: options.text, guildId: session.guildId });
+            for await (const output of imageGenerator) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
+          } catch (error) {
+            this.ctx.logger.error('生成关键词排行图片失败:', error);
+            return '图片渲染失败';
+          }
+        });
+    }
+
     if (this.config.enableSimiActivity) {
       cmd.subcommand('simiactive', '相似活跃分析')
         .usage('分析你和群友的活跃规律，找出谁和你的作息最相似。')
         .option('hours', '-n <hours:number> 指定时长', { fallback: 24 })
         .option('separate', '-p 分时分析')
+        .option('text', '--text 以文本输出')
         .action(async ({ session, options }) => {
           const effectiveChannelId = session.guildId || session.channelId;
           if (!effectiveChannelId) return '请在群组中使用此命令';
 
           try {
-            const guildUsers = await this.ctx.database.get('analyse_user', { channelId: effectiveChannelId });
+            const guildUsers = await this.ctx.database.get('analyse_user', { platform: matchPlatform(session.platform), channelId: effectiveChannelId });
             if (guildUsers.length < 2) return '暂无用户数据';
             const selfUser = guildUsers.find(u => u.userId === session.userId);
             if (!selfUser) return '暂无用户数据';
@@ -129,6 +450,7 @@ export class Analyse {
             const uidToNameMap = new Map(guildUsers.map(u => [u.uid, u.userName]));
             const scopeDesc = { guildId: effectiveChannelId };
             const until = new Date();
+            const cutoff = getHourlyCutoff(this.config);
             let analysisConfig: {
               title: string;
               since: Date;
@@ -136,10 +458,13 @@ export class Analyse {
               labels: string[];
               getIndex: (timestamp: Date) => number;
               reorderVector: (vec: number[]) => number[];
+              daily?: boolean;
             };
 
             if (options.separate) {
               const { hours } = options;
+              // 分时分析需要小时信息，超出按小时保留期的部分无法计入
+              if (cutoff && until.getTime() - hours * Time.hour < cutoff.getTime()) await session.send(`按小时记录仅保留 ${this.config.rankHourlyDays} 天，更早的数据不计入分时分析`);
               const title = await generateTitle(this.ctx, scopeDesc, { main: '相似活跃', timeRange: hours, timeUnit: '小时' });
               analysisConfig = {
                 points: hours,
@@ -158,21 +483,48 @@ export class Analyse {
               if (daysToAnalyse < 1) return '分析时长请指定至少 1 天';
 
               const hoursToAnalyse = daysToAnalyse * 24;
-              const currentHour = until.getHours();
-              const labels = Array.from({ length: 24 }, (_, i) => String((currentHour - (23 - i) + 24) % 24));
-              const title = await generateTitle(this.ctx, scopeDesc, { main: '相似活跃', timeRange: daysToAnalyse, timeUnit: '天' });
+              const since = new Date(until.getTime() - hoursToAnalyse * Time.hour);
+              if (cutoff && since < cutoff) {
+                // 超出按小时保留期的记录已汇总为按天记录，改为比较每天的活跃度
+                const dayStart = new Date(until);
+                dayStart.setHours(0, 0, 0, 0);
+                dayStart.setDate(dayStart.getDate() - daysToAnalyse + 1);
+                const labels = Array.from({ length: daysToAnalyse }, (_, i) => {
+                  const day = new Date(dayStart);
+                  day.setDate(day.getDate() + i);
+                  return `${day.getMonth() + 1}/${day.getDate()}`;
+                });
+                analysisConfig = {
+                  points: daysToAnalyse,
+                  since: dayStart,
+                  title: await generateTitle(this.ctx, scopeDesc, { main: '相似活跃', timeRange: daysToAnalyse, timeUnit: '天' }),
+                  labels,
+                  getIndex: (timestamp) => {
+                    const index = Math.floor((timestamp.getTime() - dayStart.getTime()) / Time.day);
+                    return (index >= 0 && index < daysToAnalyse) ? index : -1;
+                  },
+                  reorderVector: (vec) => vec,
+                  daily: true,
+                };
+              } else {
+                const currentHour = until.getHours();
+                const labels = Array.from({ length: 24 }, (_, i) => String((currentHour - (23 - i) + 24) % 24));
+                const title = await generateTitle(this.ctx, scopeDesc, { main: '相似活跃', timeRange: daysToAnalyse, timeUnit: '天' });
 
-              analysisConfig = {
-                points: 24,
-                since: new Date(until.getTime() - hoursToAnalyse * Time.hour),
-                title,
-                labels: labels,
-                getIndex: (timestamp) => timestamp.getHours(),
-                reorderVector: (vector) => labels.map(label => vector[parseInt(label)]),
-              };
+                analysisConfig = {
+                  points: 24,
+                  since,
+                  title,
+                  labels: labels,
+                  getIndex: (timestamp) => timestamp.getHours(),
+                  reorderVector: (vector) => labels.map(label => vector[parseInt(label)]),
+                };
+              }
             }
 
-            const records = await this.ctx.database.get('analyse_rank', { uid: { $in: guildUserUids }, timestamp: { $gte: analysisConfig.since } });
+            const rankQuery = { uid: { $in: guildUserUids }, timestamp: { $gte: analysisConfig.since } };
+            const records = await this.ctx.database.get('analyse_rank', rankQuery);
+            if (analysisConfig.daily) records.push(...await this.ctx.database.get('analyse_rank_daily', rankQuery));
             if (!records.length) return '暂无统计数据';
 
             const activityVectors = new Map<number, number[]>(guildUserUids.map(uid => [uid, Array(analysisConfig.points).fill(0)]));
@@ -193,16 +545,16 @@ export class Analyse {
             if (!similarities.length) return '暂无相似用户';
 
             const top5 = similarities.slice(0, 5);
-            const series = [{ name: uidToNameMap.get(selfUser.uid) || '您', data: analysisConfig.reorderVector(selfVector) }];
+            const series = [{ name: uidToNameMap.get(selfUser.uid) || '您', key: String(selfUser.uid), data: analysisConfig.reorderVector(selfVector) }];
 
             for (const sim of top5) {
               const name = uidToNameMap.get(sim.uid) || `UID ${sim.uid}`;
               const data = analysisConfig.reorderVector(activityVectors.get(sim.uid));
-              series.push({ name: `${name} (${(sim.score * 100).toFixed(1)}%)`, data });
+              series.push({ name: `${name} (${(sim.score * 100).toFixed(1)}%)`, key: String(sim.uid), data });
             }
 
-            const imageGenerator = this.renderer.renderLineChart({ title: analysisConfig.title, time: new Date(), series, labels: analysisConfig.labels });
-            for await (const buffer of imageGenerator) await session.send(h.image(buffer, 'image/png'));
+            const imageGenerator = this.renderer.renderLineChart({ title: analysisConfig.title, time: new Date(), series, labels: analysisConfig.labels }, { text: options.text, guildId: session.guildId });
+            for await (const output of imageGenerator) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
           } catch (error) {
             this.ctx.logger.error('生成作息分析图片失败:', error);
             return '图片渲染失败';
@@ -0,0 +1,144 @@
+import { Context, Time } from 'koishi';
+import { createHash, timingSafeEqual } from 'crypto';
+import {} from '@koishijs/plugin-server';
+import { Config } from './index';
+import { ChatAnalyse, QueryScope } from './Service';
+
+/** 定义接口路由中使用的查询参数，与对应指令的选项含义一致。 */
+type ApiQuery = Record<string, string | string[] | undefined>;
+
+/**
+ * @class Api
+ * @description 负责在 `server` 服务上注册只读的 HTTP 接口，供外部面板读取统计数据和运行指标。
+ */
+export class Api {
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   * @param service - 数据查询服务实例。
+   */
+  constructor(private ctx: Context, private config: Config, private service: ChatAnalyse) {
+    if (!this.config.apiToken) {
+      this.ctx.logger.warn('未配置接口令牌，HTTP 接口已禁用');
+      return;
+    }
+    this.ctx.inject(['server'], (ctx) => this.registerRoutes(ctx));
+  }
+
+  /**
+   * @private @method parseScope
+   * @description 将查询参数解析为统计范围，未指定群组或用户时需携带 `all` 参数才会统计全部数据。
+   * @param query - 请求的查询参数。
+   * @returns 统计范围，未指定范围时返回 null。
+   */
+  private parseScope(query: ApiQuery): QueryScope | null {
+    const scope: QueryScope = { platform: this.getString(query.platform), guildId: this.getString(query.guild), userId: this.getString(query.user) };
+    if (!scope.guildId && !scope.userId && !this.getFlag(query.all)) return null;
+    return scope;
+  }
+
+  /**
+   * @private @method getString
+   * @description 读取字符串类型的查询参数，重复出现时取第一个值。
+   * @param value - 查询参数的原始值。
+   * @returns 参数值，未提供时返回 undefined。
+   */
+  private getString(value: string | string[] | undefined): string | undefined {
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  }
+
+  /**
+   * @private @method getNumber
+   * @description 读取数值类型的查询参数。
+   * @param value - 查询参数的原始值。
+   * @param fallback - 未提供或无效时使用的默认值。
+   * @returns 参数值。
+   */
+  private getNumber(value: string | string[] | undefined, fallback: number): number {
+    const number = Number(this.getString(value));
+    return Number.isFinite(number) && number > 0 ? number : fallback;
+  }
+
+  /**
+   * @private @method getFlag
+   * @description 读取开关类型的查询参数，`0` 与 `false` 视为关闭。
+   * @param value - 查询参数的原始值。
+   * @returns 是否开启。
+   */
+  private getFlag(value: string | string[] | undefined): boolean {
+    const flag = Array.isArray(value) ? value[0] : value;
+    return flag !== undefined && flag !== '0' && flag !== 'false';
+  }
+
+  /**
+   * @private @method registerRoutes
+   * @description 注册所有接口路由，请求需通过 `Authorization: Bearer <token>` 请求头携带令牌。
+   * @param ctx - 注入了 `server` 服务的上下文。
+   */
+  private registerRoutes(ctx: Context) {
+    const basePath = this.config.apiPath.replace(/\/+$/, '');
+    // 比较令牌的摘要，使比较耗时与令牌内容和长度无关
+    const digest = (token: string) => createHash('sha256').update(token).digest();
+    const expected = digest(this.config.apiToken);
+    const authorize = (koa: { get(field: string): string }) => {
+      const token = koa.get('authorization').match(/^Bearer\s+(.+)$/i)?.[1];
+      return !!token && timingSafeEqual(digest(token), expected);
+    };
+
+    const route = (name: string, handler: (scope: QueryScope, query: ApiQuery) => Promise<unknown>) => {
+      ctx.server.get(`${basePath}/${name}`, async (koa) => {
+        if (!authorize(koa)) {
+          koa.status = 401;
+          koa.body = { error: '令牌无效' };
+          return;
+        }
+        const scope = this.parseScope(koa.query);
+        if (!scope) {
+          koa.status = 400;
+          koa.body = { error: '请指定查询范围' };
+          return;
+        }
+        try {
+          koa.body = { data: await handler(scope, koa.query) };
+        } catch (error) {
+          this.ctx.logger.error(`接口 ${name} 查询失败:`, error);
+          koa.status = 500;
+          koa.body = { error: '查询失败' };
+        }
+      });
+    };
+
+    ctx.server.get(`${basePath}/metrics`, async (koa) => {
+      if (!authorize(koa)) {
+        koa.status = 401;
+        return;
+      }
+      koa.type = 'text/plain; version=0.0.4';
+      koa.body = this.service.getMetrics();
+    });
+
+    route('cmdstat', (scope, query) => this.service.getCommandStats(scope, { separate: this.getFlag(query.separate) }));
+
+    route('msgstat', (scope, query) => this.service.getMessageStats(scope, { type: this.getString(query.type) }));
+
+    route('rankstat', (scope, query) => this.service.getRanking(scope, {
+      since: new Date(Date.now() - this.getNumber(query.duration, 24) * Time.hour),
+      type: this.getString(query.type),
+      limit: this.getNumber(query.limit, 0),
+    }));
+
+    route('activity', async (scope, query) => {
+      const unit = this.getString(query.unit) === 'day' ? 'day' : 'hour';
+      const step = unit === 'day' ? Time.day : Time.hour;
+      const until = new Date();
+      const since = new Date(until.getTime() - this.getNumber(query.duration, 24) * step);
+      const series = await this.service.getActivity(scope, { since, until, unit });
+      return { unit, since, until, series };
+    });
+
+    route('wordcloud', (scope, query) => this.service.getWordFrequencies(scope, {
+      since: new Date(Date.now() - this.getNumber(query.duration, 24) * Time.hour),
+      limit: this.getNumber(query.limit, 0),
+    }));
+  }
+}
@@ -1,18 +1,36 @@
 import { Context, Session, Element, Tables, $, h, Time } from 'koishi';
 import { Config } from './index';
+import { Metrics } from './Metrics';
+import { Privacy } from './Privacy';
+import { matchPlatform } from './Identity';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 
 // 扩展数据表接口
 declare module 'koishi' {
   interface Tables {
-    analyse_user: { uid: number; channelId: string; userId: string; channelName: string; userName: string };
+    analyse_user: { uid: number; platform: string; channelId: string; userId: string; channelName: string; userName: string };
     analyse_cmd: { uid: number; command: string; count: number; timestamp: Date };
     analyse_msg: { uid: number; type: string; count: number; timestamp: Date };
     analyse_rank: { uid: number; type: string; count: number; timestamp: Date };
-    analyse_cache: { id: number; uid: number; content: string; timestamp: Date };
+    analyse_rank_daily: { uid: number; type: string; count: number; timestamp: Date };
+    analyse_cache: { id: number; uid: number; messageId: string; content: string; types: string[]; recalled: boolean; timestamp: Date };
     analyse_at: { id: number; uid: number; target: string; content: string; timestamp: Date };
+    analyse_recall: { uid: number; count: number; timestamp: Date };
+    analyse_edge: { uid: number; target: number; type: string; count: number; timestamp: Date };
   }
 }
 
+/** 定义一次刷写中各数据表待写入的记录。 */
+interface FlushBatch {
+  cmd: { uid: number; command: string; count: number; timestamp: Date }[];
+  msg: { uid: number; type: string; count: number; timestamp: Date }[];
+  rank: { uid: number; type: string; count: number; timestamp: Date }[];
+  at: Omit<Tables['analyse_at'], 'id'>[];
+  cache: Omit<Tables['analyse_cache'], 'id'>[];
+  edge: { uid: number; target: number; type: string; count: number; timestamp: Date }[];
+}
+
 /**
  * @class Collector
  * @description 核心数据收集器。根据配置，高效地监听、收集、缓冲并持久化聊天数据。
@@ -20,6 +38,12 @@ declare module 'koishi' {
 export class Collector {
   private static readonly FLUSH_INTERVAL = Time.minute;
   private static readonly BUFFER_THRESHOLD = 60;
+  private static readonly RETRY_BASE_DELAY = 5 * Time.second;
+  private static readonly RETRY_MAX_DELAY = 10 * Time.minute;
+  /** 原始消息和提及记录缓冲区的总记录数上限，数据库长时间不可用时丢弃最早的记录，避免内存无限增长。 */
+  private static readonly MAX_BUFFERED_RECORDS = 100000;
+  private static readonly JOURNAL_INTERVAL = 5 * Time.second;
+  private static readonly RECALL_HISTORY_SIZE = 1000;
 
   // 数据缓冲区
   private msgStatBuffer = new Map<string, { uid: number; type: string; count: number; timestamp: Date }>();
@@ -27,18 +51,32 @@ export class Collector {
   private cmdStatBuffer = new Map<string, { uid: number; command: string; count: number; timestamp: Date }>();
   private oriCacheBuffer: Omit<Tables['analyse_cache'], 'id'>[] = [];
   private whoAtBuffer: Omit<Tables['analyse_at'], 'id'>[] = [];
+  private edgeBuffer = new Map<string, { uid: number; target: number; type: string; count: number; timestamp: Date }>();
 
   private userCache = new Map<string, { uid: number; userName: string; }>();
   private channelCache = new Map<string, string>();
   private pendingRequests = new Map<string, Promise<{ uid: number; userName: string; } | null>>();
+  private recentRecalls = new Set<string>();
   private flushInterval: NodeJS.Timeout;
 
+  // 刷写重试与日志状态
+  private inflight: FlushBatch | null = null;
+  private retryCount = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private disposed = false;
+  private journalPath: string;
+  private journalDirty = false;
+  private journalLoaded: Promise<void> = Promise.resolve();
+  private journalInterval: NodeJS.Timeout;
+
   /**
    * @param ctx - Koishi 的插件上下文。
    * @param config - 插件的配置对象。
+   * @param metrics - 运行指标记录器。
+   * @param privacy - 隐私控制模块实例。
    */
-  constructor(private ctx: Context, private config: Config) {
-    this.ctx.model.extend('analyse_user', { uid: 'unsigned', channelId: 'string', userId: 'string', channelName: 'string', userName: 'string' }, { primary: 'uid', autoInc: true, indexes: ['channelId', 'userId'] });
+  constructor(private ctx: Context, private config: Config, private metrics: Metrics, private privacy: Privacy) {
+    this.ctx.model.extend('analyse_user', { uid: 'unsigned', platform: 'string', channelId: 'string', userId: 'string', channelName: 'string', userName: 'string' }, { primary: 'uid', autoInc: true, indexes: ['platform', 'channelId', 'userId'] });
 
     if (config.enableCmdStat) {
       this.ctx.model.extend('analyse_cmd', { uid: 'unsigned', command: 'string', count: 'unsigned', timestamp: 'timestamp' }, { primary: ['uid', 'command'] });
@@ -48,33 +86,78 @@ export class Collector {
     }
     if (config.enableRankStat || config.enableActivity) {
       this.ctx.model.extend('analyse_rank', { uid: 'unsigned', type: 'string', count: 'unsigned', timestamp: 'timestamp' }, { primary: ['uid', 'timestamp', 'type'] });
+      this.ctx.model.extend('analyse_rank_daily', { uid: 'unsigned', type: 'string', count: 'unsigned', timestamp: 'timestamp' }, { primary: ['uid', 'timestamp', 'type'] });
     }
     if (this.config.enableOriRecord) {
-      this.ctx.model.extend('analyse_cache', { id: 'unsigned', uid: 'unsigned', content: 'text', timestamp: 'timestamp' }, { primary: 'id', autoInc: true, indexes: ['uid', 'timestamp'] });
+      this.ctx.model.extend('analyse_cache', { id: 'unsigned', uid: 'unsigned', messageId: 'string', content: 'text', types: 'list', recalled: 'boolean', timestamp: 'timestamp' }, { primary: 'id', autoInc: true, indexes: ['uid', 'timestamp', 'messageId'] });
+    }
+    if (this.config.enableRecallStat) {
+      this.ctx.model.extend('analyse_recall', { uid: 'unsigned', count: 'unsigned', timestamp: 'timestamp' }, { primary: ['uid', 'timestamp'] });
+    }
+    if (this.config.enableInteraction) {
+      this.ctx.model.extend('analyse_edge', { uid: 'unsigned', target: 'unsigned', type: 'string', count: 'unsigned', timestamp: 'timestamp' }, { primary: ['uid', 'target', 'type', 'timestamp'] });
     }
     if (this.config.enableWhoAt) {
       this.ctx.model.extend('analyse_at', { id: 'unsigned', uid: 'unsigned', target: 'string', content: 'text', timestamp: 'timestamp' }, { primary: 'id', autoInc: true, indexes: ['target', 'uid'] });
     }
 
+    ctx.on('ready', () => this.migratePlatform());
     ctx.on('message', (session) => this.onMessage(session));
+    ctx.on('message-deleted', (session) => this.onMessageDeleted(session));
+    ctx.on('message-updated', (session) => this.onMessageUpdated(session));
+    this.metrics.setBufferProvider(() => ({
+      cmd: this.cmdStatBuffer.size, msg: this.msgStatBuffer.size, rank: this.rankStatBuffer.size,
+      at: this.whoAtBuffer.length, cache: this.oriCacheBuffer.length, edge: this.edgeBuffer.size,
+    }));
+    this.privacy.onOptOut((uids, all, account) => this.dropBuffered(uids, all, account));
     this.flushInterval = setInterval(() => this.flushBuffers(), Collector.FLUSH_INTERVAL);
-    ctx.on('dispose', () => {
+    if (config.enableJournal) {
+      this.journalPath = path.join(this.ctx.baseDir, 'data', 'chat-analyse', 'journal.json');
+      this.journalLoaded = this.replayJournal();
+      this.journalInterval = setInterval(() => this.writeJournal(), Collector.JOURNAL_INTERVAL);
+    }
+    ctx.on('dispose', async () => {
+      this.disposed = true;
       clearInterval(this.flushInterval);
-      this.flushBuffers();
+      clearInterval(this.journalInterval);
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+      await this.flushBuffers();
+      this.journalDirty = true;
+      if (config.enableJournal) await this.writeJournal();
     });
   }
 
+  /**
+   * @private @method migratePlatform
+   * @description 为旧版本遗留的无平台用户记录补全平台字段。优先使用配置的旧记录平台，未配置时仅在接入单一平台时补全，
+   *   否则在收到消息时按需认领，查询时也会同时匹配无平台的记录。
+   */
+  private async migratePlatform() {
+    let platform = this.config.legacyPlatform;
+    if (!platform) {
+      const platforms = new Set(this.ctx.bots.map(bot => bot.platform));
+      if (platforms.size !== 1) return;
+      [platform] = platforms;
+    }
+    await this.ctx.database.set('analyse_user', { platform: '' }, { platform })
+      .catch(e => this.ctx.logger.error('补全用户平台信息失败:', e));
+  }
+
   /**
    * @private @method onMessage
    * @description 统一的消息事件处理器，解析消息并更新各类统计数据的缓冲区。
    * @param session - Koishi 的会话对象。
    */
   private async onMessage(session: Session) {
-    const { userId, guildId, channelId, content, timestamp, argv, elements, bot } = session;
+    const { platform, userId, guildId, channelId, content, timestamp, argv, elements, bot } = session;
     const effectiveChannelId = guildId || channelId;
     if (!effectiveChannelId || !userId || !content?.trim()) return;
+    if (!this.privacy.isChannelAllowed(platform, effectiveChannelId)) return;
+    const optout = this.privacy.getOptOut(platform, userId);
+    if (optout === 'all') return;
 
-    const cacheKey = `${effectiveChannelId}:${userId}`;
+    const cacheKey = `${platform}:${effectiveChannelId}:${userId}`;
     let user: { uid: number; userName: string; } | null;
 
     if (this.userCache.has(cacheKey)) {
@@ -84,10 +167,19 @@ export class Collector {
     } else {
       const promise = (async (): Promise<{ uid: number; userName: string; } | null> => {
         try {
-          const [dbUser] = await this.ctx.database.get('analyse_user', { channelId: effectiveChannelId, userId });
+          let [dbUser] = await this.ctx.database.get('analyse_user', { platform, channelId: effectiveChannelId, userId });
+          if (!dbUser) {
+            // 认领尚未补全平台信息的旧记录
+            [dbUser] = await this.ctx.database.get('analyse_user', { platform: '', channelId: effectiveChannelId, userId });
+            if (dbUser) {
+              await this.ctx.database.set('analyse_user', { uid: dbUser.uid }, { platform });
+              dbUser.platform = platform;
+            }
+          }
           const currentUserName = session.username ?? '';
 
-          let currentChannelName = this.channelCache.get(effectiveChannelId);
+          const channelKey = `${platform}:${effectiveChannelId}`;
+          let currentChannelName = this.channelCache.get(channelKey);
           if (currentChannelName === undefined) {
             let channelInfo: { name: string } | null = null;
             if (bot.getGuild && typeof bot.getGuild === 'function') {
@@ -97,7 +189,7 @@ export class Collector {
               channelInfo = await bot.getChannel(effectiveChannelId).catch(() => null);
             }
             currentChannelName = channelInfo?.name ?? '';
-            if (currentChannelName) this.channelCache.set(effectiveChannelId, currentChannelName);
+            if (currentChannelName) this.channelCache.set(channelKey, currentChannelName);
           }
 
           if (dbUser) {
@@ -111,7 +203,7 @@ export class Collector {
             return cacheData;
           }
 
-          const createdUser = await this.ctx.database.create('analyse_user', { channelId: effectiveChannelId, userId, userName: currentUserName, channelName: currentChannelName });
+          const createdUser = await this.ctx.database.create('analyse_user', { platform, channelId: effectiveChannelId, userId, userName: currentUserName, channelName: currentChannelName });
           const cacheData: { uid: number; userName: string; } = { uid: createdUser.uid, userName: createdUser.userName };
           this.userCache.set(cacheKey, cacheData);
           return cacheData;
@@ -127,6 +219,8 @@ export class Collector {
     }
 
     if (!user) return;
+    this.metrics.recordMessage();
+    this.journalDirty = true;
     const { uid } = user;
     const messageTime = new Date(timestamp);
 
@@ -142,7 +236,8 @@ export class Collector {
     const hourStart = new Date(messageTime.getFullYear(), messageTime.getMonth(), messageTime.getDate(), messageTime.getHours());
 
     // 更新消息类型和发言排行统计
-    for (const type of new Set(elements.map(e => e.type))) {
+    const types = [...new Set(elements.map(e => e.type))];
+    for (const type of types) {
       // 消息统计
       if (this.config.enableMsgStat) {
         const msgKey = `${uid}:${type}`;
@@ -161,23 +256,190 @@ export class Collector {
     }
 
     // 更新提及记录
-    if (this.config.enableWhoAt) {
+    if (this.config.enableWhoAt && !optout) {
       const sanitizedContent = this.sanitizeContent(elements.filter(e => e.type !== 'at'));
       for (const atElement of elements.filter(e => e.type === 'at')) {
         const targetId = atElement.attrs.id;
-        if (targetId && targetId !== userId) {
+        if (targetId && targetId !== userId && this.privacy.getOptOut(platform, targetId) !== 'all') {
           this.whoAtBuffer.push({ uid, target: targetId, content: sanitizedContent, timestamp: messageTime });
         }
       }
     }
 
+    // 更新互动关系，回复与提及均记为从发送者指向对方的有向边
+    if (this.config.enableInteraction) {
+      const targets: [string, string][] = [];
+      if (session.quote?.user?.id) targets.push([session.quote.user.id, 'reply']);
+      for (const atElement of elements.filter(e => e.type === 'at' && !e.attrs.type)) targets.push([atElement.attrs.id, 'at']);
+      for (const [targetId, type] of targets) {
+        if (!targetId || targetId === userId) continue;
+        const targetUid = await this.lookupUid(platform, effectiveChannelId, targetId);
+        if (!targetUid) continue;
+        const edgeKey = `${uid}:${targetUid}:${type}:${hourStart.toISOString()}`;
+        const edgeEntry = this.edgeBuffer.get(edgeKey) ?? { uid, target: targetUid, type, count: 0, timestamp: hourStart };
+        edgeEntry.count++;
+        this.edgeBuffer.set(edgeKey, edgeEntry);
+      }
+    }
+
     // 缓存原始消息
-    if (this.config.enableOriRecord) {
-      this.oriCacheBuffer.push({ uid, content: this.sanitizeContent(elements), timestamp: messageTime });
+    if (this.config.enableOriRecord && !optout) {
+      this.oriCacheBuffer.push({ uid, messageId: session.messageId ?? '', content: this.sanitizeContent(elements), types, recalled: false, timestamp: messageTime });
       if (this.oriCacheBuffer.length >= Collector.BUFFER_THRESHOLD) await this.flushBuffers();
     }
   }
 
+  /**
+   * @private @method lookupUid
+   * @description 查询已记录用户的 UID，不会创建新用户。
+   * @param platform - 平台名称。
+   * @param channelId - 群组 ID。
+   * @param userId - 用户 ID。
+   * @returns 用户的 UID，未记录时返回 undefined。
+   */
+  private async lookupUid(platform: string, channelId: string, userId: string): Promise<number | undefined> {
+    const cacheKey = `${platform}:${channelId}:${userId}`;
+    if (this.userCache.has(cacheKey)) return this.userCache.get(cacheKey)!.uid;
+    const [dbUser] = await this.ctx.database.get('analyse_user', { platform, channelId, userId }, ['uid', 'userName']);
+    if (!dbUser) return undefined;
+    this.userCache.set(cacheKey, { uid: dbUser.uid, userName: dbUser.userName });
+    return dbUser.uid;
+  }
+
+  /**
+   * @private @method findCacheRecord
+   * @description 按平台消息 ID 查找原始消息记录，优先查找尚未写入数据库的缓冲区。不同平台或群组的消息 ID 可能重复，
+   *   因此仅返回发送者属于指定平台和群组的记录。
+   * @param platform - 平台名称。
+   * @param channelId - 群组 ID。
+   * @param messageId - 平台消息 ID。
+   * @returns 找到的记录及其是否位于缓冲区中，未找到时返回 null。
+   */
+  private async findCacheRecord(platform: string, channelId: string, messageId: string): Promise<{ record: Omit<Tables['analyse_cache'], 'id'> & { id?: number }; buffered: boolean } | null> {
+    const buffered = this.oriCacheBuffer.filter(r => r.messageId === messageId);
+    const stored = this.config.enableOriRecord ? await this.ctx.database.get('analyse_cache', { messageId }) : [];
+    if (buffered.length === 0 && stored.length === 0) return null;
+
+    const candidateUids = [...new Set([...buffered, ...stored].map(r => r.uid))];
+    const users = await this.ctx.database.get('analyse_user', { uid: { $in: candidateUids }, platform: matchPlatform(platform), channelId }, ['uid']);
+    const uids = new Set(users.map(u => u.uid));
+    const record = buffered.find(r => uids.has(r.uid));
+    if (record) return { record, buffered: true };
+    const storedRecord = stored.find(r => uids.has(r.uid));
+    return storedRecord ? { record: storedRecord, buffered: false } : null;
+  }
+
+  /**
+   * @private @method onMessageDeleted
+   * @description 处理消息撤回事件：标记原始记录、扣减对应的消息与排行统计，并累计撤回次数。
+   * @param session - Koishi 的会话对象。
+   */
+  private async onMessageDeleted(session: Session) {
+    const { platform, userId, guildId, channelId, messageId, timestamp } = session;
+    const effectiveChannelId = guildId || channelId;
+    if (!effectiveChannelId || !messageId) return;
+
+    // 同一撤回事件可能被多个机器人或适配器重复推送，已处理过的撤回不再重复计数
+    const recallKey = `${platform}:${effectiveChannelId}:${messageId}`;
+    if (this.recentRecalls.has(recallKey)) return;
+    this.recentRecalls.add(recallKey);
+    if (this.recentRecalls.size > Collector.RECALL_HISTORY_SIZE) this.recentRecalls.delete(this.recentRecalls.values().next().value);
+
+    try {
+      const found = await this.findCacheRecord(platform, effectiveChannelId, messageId);
+      if (found?.record.recalled) return;
+      const uid = found?.record.uid ?? (userId ? await this.lookupUid(platform, effectiveChannelId, userId) : undefined);
+      if (!uid) return;
+
+      if (found) {
+        const { record, buffered } = found;
+        record.recalled = true;
+        this.journalDirty ||= buffered;
+        if (!buffered) await this.ctx.database.set('analyse_cache', { id: record.id }, { recalled: true });
+
+        const messageTime = record.timestamp;
+        const hourStart = new Date(messageTime.getFullYear(), messageTime.getMonth(), messageTime.getDate(), messageTime.getHours());
+        // 按收集时记录的元素类型扣减，旧版本的记录未保存类型时从内容中还原
+        const types = record.types?.length ? record.types : this.parseContentTypes(record.content);
+        for (const type of types) {
+          if (this.config.enableMsgStat) {
+            const msgEntry = this.msgStatBuffer.get(`${uid}:${type}`);
+            if (buffered && msgEntry?.count > 0) msgEntry.count--;
+            else await this.ctx.database.set('analyse_msg', { uid, type, count: { $gt: 0 } }, row => ({ count: $.sub(row.count, 1) }));
+          }
+          if (this.config.enableRankStat || this.config.enableActivity) {
+            const rankEntry = this.rankStatBuffer.get(`${uid}:${hourStart.toISOString()}:${type}`);
+            if (buffered && rankEntry?.count > 0) rankEntry.count--;
+            else await this.decrementRank(uid, type, hourStart);
+          }
+        }
+      }
+
+      if (this.config.enableRecallStat) {
+        const recallTime = new Date(timestamp || Date.now());
+        const recallHour = new Date(recallTime.getFullYear(), recallTime.getMonth(), recallTime.getDate(), recallTime.getHours());
+        await this.ctx.database.upsert('analyse_recall', (row) => [{ uid, timestamp: recallHour, count: $.add($.ifNull(row.count, 0), 1) }]);
+      }
+    } catch (error) {
+      this.ctx.logger.error(`处理消息撤回(${messageId})失败:`, error);
+    }
+  }
+
+  /**
+   * @private @method decrementRank
+   * @description 扣减一条发言排行记录。对应的按小时记录已被汇总时，改为扣减当天的按天记录。
+   * @param uid - 用户的 UID。
+   * @param type - 消息元素类型。
+   * @param hourStart - 消息所在小时的起始时间。
+   */
+  private async decrementRank(uid: number, type: string, hourStart: Date) {
+    const [hourly] = await this.ctx.database.get('analyse_rank', { uid, type, timestamp: hourStart }, ['count']);
+    if (hourly) {
+      await this.ctx.database.set('analyse_rank', { uid, type, timestamp: hourStart, count: { $gt: 0 } }, row => ({ count: $.sub(row.count, 1) }));
+      return;
+    }
+    const dayStart = new Date(hourStart.getFullYear(), hourStart.getMonth(), hourStart.getDate());
+    await this.ctx.database.set('analyse_rank_daily', { uid, type, timestamp: dayStart, count: { $gt: 0 } }, row => ({ count: $.sub(row.count, 1) }));
+  }
+
+  /**
+   * @private @method onMessageUpdated
+   * @description 处理消息编辑事件，将原始记录的内容更新为编辑后的内容。
+   * @param session - Koishi 的会话对象。
+   */
+  private async onMessageUpdated(session: Session) {
+    const { platform, guildId, channelId, messageId, elements } = session;
+    const effectiveChannelId = guildId || channelId;
+    if (!this.config.enableOriRecord || !effectiveChannelId || !messageId || !elements) return;
+
+    try {
+      const found = await this.findCacheRecord(platform, effectiveChannelId, messageId);
+      if (!found) return;
+      const content = this.sanitizeContent(elements);
+      found.record.content = content;
+      this.journalDirty ||= found.buffered;
+      if (!found.buffered) await this.ctx.database.set('analyse_cache', { id: found.record.id }, { content });
+    } catch (error) {
+      this.ctx.logger.error(`处理消息编辑(${messageId})失败:`, error);
+    }
+  }
+
+  /**
+   * @private @method parseContentTypes
+   * @description 从净化后的文本中还原消息包含的元素类型，是 `sanitizeContent` 的近似逆过程，仅用于未保存元素类型的旧记录。
+   * @param content - 净化后的纯文本。
+   * @returns 消息元素类型的集合。
+   */
+  private parseContentTypes(content: string): Set<string> {
+    const types = new Set<string>();
+    const text = content.replace(/\[(gif|at:[^\]]*|[a-z-]+)\]/g, (_, token: string) => {
+      types.add(token === 'gif' ? 'img' : token.startsWith('at:') ? 'at' : token);
+      return '';
+    });
+    if (text) types.add('text');
+    return types;
+  }
+
   /**
    * @private @method sanitizeContent
    * @description 将 Koishi 消息元素数组净化为纯文本字符串。
@@ -200,32 +462,191 @@ export class Collector {
     }).join('');
 
   /**
-   * @private @method flushBuffers
-   * @description 将所有内存中的数据缓冲区批量写入数据库，并清空缓冲区。
+   * @private @method dropBuffered
+   * @description 丢弃缓冲区中属于指定用户的数据，用于响应用户退出记录。
+   * @param uids - 用户的 uid 列表。
+   * @param all - 是否丢弃全部数据，否则仅丢弃包含消息内容的数据。
+   * @param account - 用户的账号，丢弃全部数据时同时丢弃以其为目标的提及记录。
    */
-  private async flushBuffers() {
-    const buffers = {
+  private dropBuffered(uids: number[], all: boolean, account: { platform: string; userId: string }) {
+    const uidSet = new Set(uids);
+    this.whoAtBuffer = this.whoAtBuffer.filter(item => !uidSet.has(item.uid));
+    this.oriCacheBuffer = this.oriCacheBuffer.filter(item => !uidSet.has(item.uid));
+    if (all) {
+      const platformUids = new Set([...this.userCache].filter(([key]) => key.startsWith(`${account.platform}:`)).map(([, user]) => user.uid));
+      this.whoAtBuffer = this.whoAtBuffer.filter(item => !(item.target === account.userId && platformUids.has(item.uid)));
+      for (const buffer of [this.cmdStatBuffer, this.msgStatBuffer, this.rankStatBuffer, this.edgeBuffer]) {
+        for (const [key, item] of buffer) if (uidSet.has(item.uid) || uidSet.has((item as { target?: number }).target)) buffer.delete(key);
+      }
+      for (const [key, user] of this.userCache) if (uidSet.has(user.uid)) this.userCache.delete(key);
+    }
+    this.journalDirty = true;
+  }
+
+  /**
+   * @private @method takeBuffers
+   * @description 取出所有缓冲区中的数据，可选择同时清空缓冲区。
+   * @param clear - 是否清空缓冲区。
+   * @returns 包含各缓冲区数据的批次。
+   */
+  private takeBuffers(clear: boolean): FlushBatch {
+    const batch: FlushBatch = {
       cmd: Array.from(this.cmdStatBuffer.values()),
       msg: Array.from(this.msgStatBuffer.values()),
       rank: Array.from(this.rankStatBuffer.values()),
       at: this.whoAtBuffer,
       cache: this.oriCacheBuffer,
+      edge: Array.from(this.edgeBuffer.values()),
     };
+    if (!clear) return { ...batch, at: [...batch.at], cache: [...batch.cache] };
 
     this.cmdStatBuffer.clear();
     this.msgStatBuffer.clear();
     this.rankStatBuffer.clear();
     this.whoAtBuffer = [];
     this.oriCacheBuffer = [];
+    this.edgeBuffer.clear();
+    return batch;
+  }
+
+  /**
+   * @private @method mergeBuffers
+   * @description 将批次中的数据合并回缓冲区，计数累加，列表数据排在现有数据之前。
+   * @param batch - 需要合并的批次。
+   */
+  private mergeBuffers(batch: FlushBatch) {
+    const mergeCount = <T extends { count: number; timestamp: Date }>(buffer: Map<string, T>, items: T[], getKey: (item: T) => string) => {
+      for (const item of items) {
+        const key = getKey(item);
+        const entry = buffer.get(key);
+        if (!entry) {
+          buffer.set(key, { ...item });
+          continue;
+        }
+        entry.count += item.count;
+        if (item.timestamp > entry.timestamp) entry.timestamp = item.timestamp;
+      }
+    };
+    mergeCount(this.cmdStatBuffer, batch.cmd, item => `${item.uid}:${item.command}`);
+    mergeCount(this.msgStatBuffer, batch.msg, item => `${item.uid}:${item.type}`);
+    mergeCount(this.rankStatBuffer, batch.rank, item => `${item.uid}:${item.timestamp.toISOString()}:${item.type}`);
+    mergeCount(this.edgeBuffer, batch.edge, item => `${item.uid}:${item.target}:${item.type}:${item.timestamp.toISOString()}`);
+    this.whoAtBuffer = batch.at.concat(this.whoAtBuffer);
+    this.oriCacheBuffer = batch.cache.concat(this.oriCacheBuffer);
+  }
 
+  /**
+   * @private @method enforceBufferLimit
+   * @description 原始消息和提及记录的缓冲区超出上限时，按时间从早到晚丢弃超出的记录，并记录日志与丢弃数量。
+   *   统计类缓冲区按键累加，不会随消息数增长，因此始终保留。
+   */
+  private enforceBufferLimit() {
+    const overflow = this.oriCacheBuffer.length + this.whoAtBuffer.length - Collector.MAX_BUFFERED_RECORDS;
+    if (overflow <= 0) return;
+    const droppedCache = Math.min(overflow, this.oriCacheBuffer.length);
+    const droppedAt = overflow - droppedCache;
+    this.oriCacheBuffer = this.oriCacheBuffer.slice(droppedCache);
+    this.whoAtBuffer = this.whoAtBuffer.slice(droppedAt);
+    if (droppedCache) this.metrics.recordDropped('cache', droppedCache);
+    if (droppedAt) this.metrics.recordDropped('at', droppedAt);
+    this.ctx.logger.warn(`缓冲区记录数超出上限，已丢弃最早的 ${droppedCache} 条原始消息和 ${droppedAt} 条提及记录`);
+  }
+
+  /**
+   * @private @method flushBuffers
+   * @description 将所有内存中的数据缓冲区按表依次写入数据库。写入失败的数据会合并回缓冲区，并按指数退避安排重试。
+   * @param retry - 是否为重试触发，等待重试期间的常规刷写会被跳过。
+   */
+  private async flushBuffers(retry = false) {
+    if (this.inflight || (this.retryTimer && !retry)) return;
+    const batch = this.inflight = this.takeBuffers(true);
+    const failed: FlushBatch = { cmd: [], msg: [], rank: [], at: [], cache: [], edge: [] };
+    const steps: [keyof FlushBatch, () => Promise<unknown>][] = [
+      ['cmd', () => this.ctx.database.upsert('analyse_cmd', (row) => batch.cmd.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })))],
+      ['msg', () => this.ctx.database.upsert('analyse_msg', (row) => batch.msg.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })))],
+      ['rank', () => this.ctx.database.upsert('analyse_rank', (row) => batch.rank.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })))],
+      ['at', () => this.ctx.database.upsert('analyse_at', batch.at)],
+      ['cache', () => this.ctx.database.upsert('analyse_cache', batch.cache)],
+      ['edge', () => this.ctx.database.upsert('analyse_edge', (row) => batch.edge.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })))],
+    ];
+
+    const startTime = Date.now();
+    let lastError: unknown;
+    for (const [key, write] of steps) {
+      if (batch[key].length === 0) continue;
+      try {
+        await write();
+      } catch (error) {
+        Object.assign(failed, { [key]: batch[key] });
+        lastError = error;
+      }
+      // 已写入的数据不再保留在日志中，避免重启后重复计入
+      Object.assign(this.inflight, { [key]: failed[key] });
+    }
+    this.inflight = null;
+    this.retryTimer = undefined;
+    this.journalDirty = true;
+
+    if (lastError === undefined) {
+      this.retryCount = 0;
+      this.metrics.recordFlush(Date.now() - startTime, true);
+      return;
+    }
+
+    this.metrics.recordFlush(Date.now() - startTime, false);
+    this.mergeBuffers(failed);
+    this.enforceBufferLimit();
+    // 停用时不再安排重试，未写入的数据由日志保存
+    if (this.disposed) return this.ctx.logger.error('数据库刷写失败:', lastError);
+    const delay = Math.min(Collector.RETRY_BASE_DELAY * 2 ** this.retryCount++, Collector.RETRY_MAX_DELAY);
+    this.ctx.logger.error(`数据库刷写失败，将在 ${delay / Time.second} 秒后重试:`, lastError);
+    this.retryTimer = setTimeout(() => this.flushBuffers(true), delay);
+  }
+
+  /**
+   * @private @method replayJournal
+   * @description 读取上次运行遗留的日志文件，将其中尚未写入数据库的数据合并回缓冲区。
+   */
+  private async replayJournal() {
     try {
-      if (buffers.cmd.length > 0) await this.ctx.database.upsert('analyse_cmd', (row) => buffers.cmd.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })));
-      if (buffers.msg.length > 0) await this.ctx.database.upsert('analyse_msg', (row) => buffers.msg.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })));
-      if (buffers.rank.length > 0) await this.ctx.database.upsert('analyse_rank', (row) => buffers.rank.map(item => ({ ...item, count: $.add($.ifNull(row.count, 0), item.count) })));
-      if (buffers.at.length > 0) await this.ctx.database.upsert('analyse_at', buffers.at);
-      if (buffers.cache.length > 0) await this.ctx.database.upsert('analyse_cache', buffers.cache);
+      const content = await fs.readFile(this.journalPath, 'utf-8').catch(() => '');
+      if (!content) return;
+      const batches: FlushBatch[] = JSON.parse(content, (key, value) => key === 'timestamp' ? new Date(value) : value);
+      let total = 0;
+      for (const batch of batches) {
+        this.mergeBuffers(batch);
+        total += Object.values(batch).reduce((sum, items) => sum + items.length, 0);
+      }
+      this.enforceBufferLimit();
+      this.journalDirty = true;
+      if (total > 0) this.ctx.logger.info(`已从日志恢复 ${total} 条未写入的记录`);
+    } catch (error) {
+      this.ctx.logger.error('日志恢复失败:', error);
+    }
+  }
+
+  /**
+   * @private @method writeJournal
+   * @description 将正在写入和尚未写入数据库的数据保存到日志文件，缓冲区为空时删除日志文件。
+   */
+  private async writeJournal() {
+    await this.journalLoaded;
+    if (!this.journalDirty) return;
+    this.journalDirty = false;
+    const batches = [this.inflight, this.takeBuffers(false)].filter(Boolean);
+    const isEmpty = batches.every(batch => Object.values(batch).every(items => items.length === 0));
+    try {
+      if (isEmpty) {
+        await fs.rm(this.journalPath, { force: true });
+        return;
+      }
+      await fs.mkdir(path.dirname(this.journalPath), { recursive: true });
+      const tempPath = `${this.journalPath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(batches));
+      await fs.rename(tempPath, this.journalPath);
     } catch (error) {
-      this.ctx.logger.error('数据库刷写失败:', error);
+      this.journalDirty = true;
+      this.ctx.logger.error('日志写入失败:', error);
     }
   }
 }
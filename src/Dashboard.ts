@@ -0,0 +1,100 @@
+import { Context } from 'koishi';
+import {} from '@koishijs/plugin-console';
+import { resolve } from 'path';
+import { ChatAnalyse, RankingItem } from './Service';
+import { Data, ClearOptions } from './Data';
+
+/**
+ * @interface ChannelItem
+ * @description 定义控制台频道列表中的单项数据。
+ */
+export interface ChannelItem {
+  platform: string;
+  channelId: string;
+  channelName: string;
+  userCount: number;
+}
+
+/**
+ * @interface DashboardQuery
+ * @description 定义控制台查询统计数据时提交的条件，时间为毫秒时间戳。
+ */
+export interface DashboardQuery {
+  platform?: string;
+  channelId?: string;
+  since: number;
+  until?: number;
+}
+
+declare module '@koishijs/plugin-console' {
+  interface Events {
+    'chat-analyse/channels'(): Promise<ChannelItem[]>;
+    'chat-analyse/ranking'(query: DashboardQuery & { limit?: number }): Promise<RankingItem[]>;
+    'chat-analyse/activity'(query: DashboardQuery & { unit?: 'hour' | 'day' }): Promise<number[]>;
+    'chat-analyse/wordcloud'(query: DashboardQuery & { limit?: number }): Promise<[string, number][]>;
+    'chat-analyse/backup'(all?: boolean): Promise<string>;
+    'chat-analyse/restore'(all?: boolean): Promise<string>;
+    'chat-analyse/clear'(options: ClearOptions): Promise<string>;
+  }
+}
+
+/**
+ * @class Dashboard
+ * @description 负责在 Koishi 控制台中注册数据分析页面，并为页面提供数据查询和数据管理接口。
+ */
+export class Dashboard {
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param service - 数据查询服务实例。
+   * @param data - 数据管理模块实例，未启用时为空。
+   */
+  constructor(private ctx: Context, private service: ChatAnalyse, private data?: Data) {
+    this.ctx.inject(['console'], (ctx) => {
+      ctx.console.addEntry({
+        dev: resolve(__dirname, '../client/index.ts'),
+        // 由 `npm run build:client` 构建，发布前自动执行
+        prod: resolve(__dirname, '../dist'),
+      });
+      this.registerListeners(ctx);
+    });
+  }
+
+  /**
+   * @private @method registerListeners
+   * @description 注册控制台页面使用的所有接口，仅允许 4 级以上权限的用户调用。
+   * @param ctx - 注入了控制台服务的上下文。
+   */
+  private registerListeners(ctx: Context) {
+    const options = { authority: 4 };
+    const toScope = (query: DashboardQuery) => ({ platform: query.platform, guildId: query.channelId });
+
+    ctx.console.addListener('chat-analyse/channels', async () => {
+      const users = await this.ctx.database.get('analyse_user', {}, ['platform', 'channelId', 'channelName']);
+      const channels = new Map<string, ChannelItem>();
+      for (const user of users) {
+        const key = `${user.platform}:${user.channelId}`;
+        const channel = channels.get(key) ?? { platform: user.platform, channelId: user.channelId, channelName: '', userCount: 0 };
+        channel.channelName ||= user.channelName;
+        channel.userCount++;
+        channels.set(key, channel);
+      }
+      return Array.from(channels.values()).sort((a, b) => b.userCount - a.userCount);
+    }, options);
+
+    ctx.console.addListener('chat-analyse/ranking', (query) => this.service.getRanking(toScope(query), {
+      since: new Date(query.since), until: query.until ? new Date(query.until) : undefined, limit: query.limit,
+    }), options);
+
+    ctx.console.addListener('chat-analyse/activity', (query) => this.service.getActivity(toScope(query), {
+      since: new Date(query.since), until: query.until ? new Date(query.until) : undefined, unit: query.unit,
+    }), options);
+
+    ctx.console.addListener('chat-analyse/wordcloud', (query) => this.service.getWordFrequencies(toScope(query), {
+      since: new Date(query.since), until: query.until ? new Date(query.until) : undefined, limit: query.limit,
+    }), options);
+
+    ctx.console.addListener('chat-analyse/backup', async (all) => this.data ? this.data.backup(all) : '数据管理未启用', options);
+    ctx.console.addListener('chat-analyse/restore', async (all) => this.data ? this.data.restore(all) : '数据管理未启用', options);
+    ctx.console.addListener('chat-analyse/clear', async (clearOptions) => this.data ? this.data.clear(clearOptions) : '数据管理未启用', options);
+  }
+}
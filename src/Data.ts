@@ -1,12 +1,32 @@
 import { Context, Command, Element, Tables, Time, $, h } from 'koishi';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { matchPlatform } from './Identity';
 
 /** 定义插件管理的所有数据表的表名数组。 */
-const ALL_TABLES: (keyof Tables)[] = ['analyse_user', 'analyse_cmd', 'analyse_msg', 'analyse_rank', 'analyse_at', 'analyse_cache'];
+const ALL_TABLES: (keyof Tables)[] = ['analyse_user', 'analyse_cmd', 'analyse_msg', 'analyse_rank', 'analyse_rank_daily', 'analyse_at', 'analyse_cache', 'analyse_recall', 'analyse_edge'];
 /** 定义默认备份和恢复操作的核心数据表。 */
-const DEFAULT_BACKUP_TABLES: (keyof Tables)[] = ['analyse_user', 'analyse_cmd', 'analyse_msg', 'analyse_rank'];
+const DEFAULT_BACKUP_TABLES: (keyof Tables)[] = ['analyse_user', 'analyse_cmd', 'analyse_msg', 'analyse_rank', 'analyse_rank_daily'];
 const BATCH_SIZE = 1000;
+/** 匿名备份所在的子目录，与普通备份分开存放以免互相覆盖。 */
+const ANONYMOUS_DIR = 'anonymous';
+const SALT_FILE = 'salt.txt';
+
+/**
+ * @interface ClearOptions
+ * @description 定义清除数据时可用的筛选条件。
+ */
+export interface ClearOptions {
+  table?: string;
+  platform?: string;
+  guild?: string;
+  user?: string;
+  days?: number;
+  command?: string;
+  limit?: number;
+  all?: boolean;
+}
 
 /**
  * @class Data
@@ -49,7 +69,7 @@ export class Data {
         const userInfo = uidToUserInfoMap.get(record.uid);
         if (!userInfo) return null;
         const { id, uid, ...restOfRecord } = record;
-        return { userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
+        return { platform: userInfo.platform, userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
       }).filter(Boolean);
 
       if (dataToExport.length > 0) await fs.writeFile(filepath, JSON.stringify(dataToExport, null, 2));
@@ -58,6 +78,251 @@ export class Data {
     }
   }
 
+  /**
+   * @private
+   * @method getSalt
+   * @description 获取匿名化使用的盐值。未配置时生成随机盐值并保存到本地，以保证多次导出的哈希一致。
+   * @returns 盐值。
+   */
+  private async getSalt(): Promise<string> {
+    if (this.config.anonymiseSalt) return this.config.anonymiseSalt;
+    const saltPath = path.join(this.dataDir, SALT_FILE);
+    const saved = await fs.readFile(saltPath, 'utf-8').catch(() => '');
+    if (saved.trim()) return saved.trim();
+    const salt = randomBytes(16).toString('hex');
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(saltPath, salt);
+    return salt;
+  }
+
+  /**
+   * @private
+   * @method anonymise
+   * @description 将记录中的用户、群组和消息 ID 替换为加盐哈希，并以哈希前缀代替名称，可选择清空消息内容。
+   * @param record - 已将 uid 展开为平台、群组和用户 ID 的记录。
+   * @param salt - 哈希使用的盐值。
+   * @param redact - 是否清空消息内容。
+   * @returns 匿名化后的记录。
+   */
+  private anonymise(record: Record<string, any>, salt: string, redact: boolean): Record<string, any> {
+    const hash = (value: string) => createHash('sha256').update(`${salt}:${value}`).digest('hex').slice(0, 16);
+    const result = { ...record };
+    if (result.userId) result.userId = hash(result.userId);
+    if (result.channelId) result.channelId = hash(result.channelId);
+    if (result.messageId) result.messageId = hash(result.messageId);
+    if (result.target) result.target = hash(result.target);
+    if (result.targetUserId) result.targetUserId = hash(result.targetUserId);
+    if ('userName' in result) result.userName = result.userId ? `用户${result.userId.slice(0, 6)}` : '';
+    if ('channelName' in result) result.channelName = result.channelId ? `群组${result.channelId.slice(0, 6)}` : '';
+    if (typeof result.content === 'string') {
+      result.content = redact ? '' : result.content.replace(/\[at:(.*?)\]/g, (_, id: string) => `[at:${hash(id)}]`);
+    }
+    return result;
+  }
+
+  /**
+   * @public
+   * @method backup
+   * @description 将统计数据导出为 JSON 文件，并保存到本地。匿名备份保存在单独的目录中。
+   * @param all - 是否备份全部数据表。
+   * @param options - 匿名化选项，`redact` 为 true 时同时清空消息内容。
+   * @returns 操作结果的提示文本。
+   */
+  public async backup(all?: boolean, options: { anonymise?: boolean; redact?: boolean } = {}): Promise<string> {
+    const tablesToProcess = all ? ALL_TABLES : DEFAULT_BACKUP_TABLES;
+    const backupDir = options.anonymise ? path.join(this.dataDir, ANONYMOUS_DIR) : this.dataDir;
+    try {
+      const salt = options.anonymise ? await this.getSalt() : '';
+      await fs.mkdir(backupDir, { recursive: true });
+      const allUsers = await this.ctx.database.get('analyse_user', {});
+      const uidToUserInfoMap = new Map(allUsers.map(u => [u.uid, u]));
+      for (const tableName of tablesToProcess) {
+        if (!this.ctx.model.tables[tableName]) continue;
+        const filepath = path.join(backupDir, `${tableName}.json`);
+        const allDataToExport = [];
+        let offset = 0;
+        while (true) {
+          const batchRecords = await this.ctx.database.get(tableName as any, {}, {
+            limit: BATCH_SIZE,
+            offset: offset,
+          });
+          if (batchRecords.length === 0) break;
+          let processedBatch: any[];
+          if (tableName === 'analyse_user') {
+            processedBatch = batchRecords.map(({ uid, ...rest }) => rest);
+          } else {
+            processedBatch = batchRecords.map(record => {
+              const userInfo = uidToUserInfoMap.get(record.uid);
+              if (!userInfo) return null;
+              const { uid, ...restOfRecord } = record;
+              // 互动关系的目标同样是内部 uid，导出为同一群组中的用户 ID 以便恢复时重新映射
+              if (tableName === 'analyse_edge') {
+                const { target, ...restOfEdge } = restOfRecord;
+                const targetInfo = uidToUserInfoMap.get(target);
+                if (!targetInfo) return null;
+                return { platform: userInfo.platform, userId: userInfo.userId, channelId: userInfo.channelId, targetUserId: targetInfo.userId, ...restOfEdge };
+              }
+              return { platform: userInfo.platform, userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
+            }).filter(Boolean);
+          }
+          if (options.anonymise) processedBatch = processedBatch.map(record => this.anonymise(record, salt, options.redact));
+          allDataToExport.push(...processedBatch);
+          offset += BATCH_SIZE;
+        }
+        await fs.writeFile(filepath, JSON.stringify(allDataToExport, null, 2));
+      }
+      return options.anonymise ? '匿名数据备份成功' : '数据备份成功';
+    } catch (error) {
+      this.ctx.logger.error('数据备份失败:', error);
+      return '数据备份失败';
+    }
+  }
+
+  /**
+   * @public
+   * @method restore
+   * @description 从本地的 JSON 文件中恢复统计数据。
+   * @param all - 是否恢复全部数据表。
+   * @param anonymous - 是否从匿名备份中恢复。
+   * @returns 操作结果的提示文本。
+   */
+  public async restore(all?: boolean, anonymous?: boolean): Promise<string> {
+    const backupDir = anonymous ? path.join(this.dataDir, ANONYMOUS_DIR) : this.dataDir;
+    try {
+      const userTablePath = path.join(backupDir, 'analyse_user.json');
+      const usersToImport = JSON.parse(await fs.readFile(userTablePath, 'utf-8').catch(() => '[]')).map(u => ({ platform: '', ...u }));
+      if (usersToImport.length) for (let i = 0; i < usersToImport.length; i += BATCH_SIZE) await this.ctx.database.upsert('analyse_user', usersToImport.slice(i, i + BATCH_SIZE), ['platform', 'channelId', 'userId']);
+
+      const allUsers = await this.ctx.database.get('analyse_user', {});
+      const userToUidMap = new Map(allUsers.map(u => [`${u.platform}:${u.channelId}:${u.userId}`, u.uid]));
+
+      const tablesToProcess = all ? ALL_TABLES.filter(t => t !== 'analyse_user') : DEFAULT_BACKUP_TABLES.filter(t => t !== 'analyse_user');
+
+      for (const tableName of tablesToProcess) {
+        if (!this.ctx.model.tables[tableName]) continue;
+        const filepath = path.join(backupDir, `${tableName}.json`);
+        const recordsToImport = JSON.parse(await fs.readFile(filepath, 'utf-8').catch(() => '[]'));
+        if (!recordsToImport.length) continue;
+
+        const recordsWithUid = recordsToImport.map(r => {
+          const uid = userToUidMap.get(`${r.platform ?? ''}:${r.channelId}:${r.userId}`);
+          if (!uid) return null;
+          const { platform, userId, channelId, ...rest } = r;
+          if (tableName === 'analyse_edge') {
+            const { targetUserId, ...restOfEdge } = rest;
+            const target = userToUidMap.get(`${platform ?? ''}:${channelId}:${targetUserId}`);
+            return target ? { uid, target, ...restOfEdge } : null;
+          }
+          return { uid, ...rest };
+        }).filter(Boolean);
+
+        if (recordsWithUid.length > 0) for (let i = 0; i < recordsWithUid.length; i += BATCH_SIZE) await this.ctx.database.upsert(tableName, recordsWithUid.slice(i, i + BATCH_SIZE));
+      }
+      return '数据恢复成功';
+    } catch (error) {
+      this.ctx.logger.error('数据恢复失败:', error);
+      return '数据恢复失败';
+    }
+  }
+
+  /**
+   * @public
+   * @method clear
+   * @description 根据条件清除统计数据。
+   * @param options - 清除条件。
+   * @returns 操作结果的提示文本。
+   */
+  public async clear(options: ClearOptions): Promise<string> {
+    if (Object.keys(options).length === 0) return '请指定清除条件';
+    if (options.table && !ALL_TABLES.includes(options.table as keyof Tables)) return `表名 ${options.table} 无效`;
+
+    try {
+      if (options.all) {
+        await Promise.all(ALL_TABLES.filter(tableName => this.ctx.model.tables[tableName]).map(tableName => this.ctx.database.drop(tableName)));
+        return '已清除所有数据，请重新初始化插件';
+      }
+
+      const query: any = {};
+      const descParts: string[] = [];
+      let uidsToClear: number[] | undefined;
+
+      if (options.limit > 0) {
+        descParts.push(`发言数 < ${options.limit}`);
+        const msgStats = await this.ctx.database.select('analyse_msg').groupBy('uid', { total: row => $.sum(row.count) }).execute();
+        const uidsFromLimit = msgStats.filter(s => s.total < options.limit).map(s => s.uid);
+        if (uidsFromLimit.length === 0) return '未找到相关数据';
+        uidsToClear = uidsFromLimit;
+      }
+
+      if (options.platform || options.guild || options.user) {
+        const userQuery: any = {};
+        if (options.platform) { userQuery.platform = matchPlatform(options.platform); descParts.push(`平台 ${options.platform}`); }
+        if (options.guild) { userQuery.channelId = options.guild; descParts.push(`群组 ${options.guild}`); }
+        if (options.user) {
+          const userId = Element.select(options.user, 'at')[0]?.attrs.id ?? options.user;
+          userQuery.userId = userId;
+          descParts.push(`用户 ${userId}`);
+        }
+        const uidsFromScope = (await this.ctx.database.get('analyse_user', userQuery)).map(u => u.uid);
+
+        if (uidsToClear) {
+          const scopeUidSet = new Set(uidsFromScope);
+          uidsToClear = uidsToClear.filter(uid => scopeUidSet.has(uid));
+        } else {
+          uidsToClear = uidsFromScope;
+        }
+      }
+
+      if (uidsToClear) {
+        if (uidsToClear.length === 0) return '未找到相关数据';
+        query.uid = { $in: [...new Set(uidsToClear)] };
+      }
+
+      if (options.days > 0) {
+        query.timestamp = { $lt: new Date(Date.now() - options.days * Time.day) };
+        descParts.push(`${options.days} 天前`);
+      }
+
+      if (options.command) {
+        query.command = options.command;
+        descParts.push(`命令 ${options.command}`);
+      }
+
+      const tablesToClear = options.command
+        ? ['analyse_cmd']
+        : (options.table ? [options.table] : ALL_TABLES.filter(t => t !== 'analyse_user'));
+
+      let totalRemoved = 0;
+      for (const tableName of tablesToClear) {
+        if (!this.ctx.model.tables[tableName]) continue;
+        let tableQuery = { ...query };
+        if (tableName !== 'analyse_cmd' && tableQuery.command) continue;
+        // 清除用户时同时清除以其为目标的互动关系
+        if (tableName === 'analyse_edge' && tableQuery.uid) {
+          const { uid, ...rest } = tableQuery;
+          tableQuery = { ...rest, $or: [{ uid }, { target: uid }] };
+        }
+        const result = await this.ctx.database.remove(tableName as any, tableQuery);
+        totalRemoved += result.removed;
+      }
+
+      if (totalRemoved === 0) return '未找到相关数据';
+
+      const tableString = options.table ? `表 ${options.table}` : '所有表';
+      const descString = descParts.join('、');
+
+      if (descString) {
+        return `已清除${tableString}中 ${descString} 的数据`;
+      } else {
+        return `已清除${tableString}中的所有数据`;
+      }
+
+    } catch (error) {
+      this.ctx.logger.error('数据清理失败:', error);
+      return '数据清理失败';
+    }
+  }
+
   /**
    * @public
    * @method registerCommands
@@ -68,172 +333,30 @@ export class Data {
     cmd.subcommand('.backup', '备份数据', { authority: 4 })
       .usage('将统计数据导出为 JSON 文件，并保存到本地。')
       .option('all', '-a 全量备份')
-      .action(async ({ options }) => {
-        const tablesToProcess = options.all ? ALL_TABLES : DEFAULT_BACKUP_TABLES;
-        try {
-          await fs.mkdir(this.dataDir, { recursive: true });
-          const allUsers = await this.ctx.database.get('analyse_user', {});
-          const uidToUserInfoMap = new Map(allUsers.map(u => [u.uid, u]));
-          for (const tableName of tablesToProcess) {
-            const filepath = path.join(this.dataDir, `${tableName}.json`);
-            const allDataToExport = [];
-            let offset = 0;
-            while (true) {
-              const batchRecords = await this.ctx.database.get(tableName as any, {}, {
-                limit: BATCH_SIZE,
-                offset: offset,
-              });
-              if (batchRecords.length === 0) break;
-              let processedBatch: any[];
-              if (tableName === 'analyse_user') {
-                processedBatch = batchRecords.map(({ uid, ...rest }) => rest);
-              } else {
-                processedBatch = batchRecords.map(record => {
-                  const userInfo = uidToUserInfoMap.get(record.uid);
-                  if (!userInfo) return null;
-                  const { uid, ...restOfRecord } = record;
-                  return { userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
-                }).filter(Boolean);
-              }
-              allDataToExport.push(...processedBatch);
-              offset += BATCH_SIZE;
-            }
-            await fs.writeFile(filepath, JSON.stringify(allDataToExport, null, 2));
-          }
-          return '数据备份成功';
-        } catch (error) {
-          this.ctx.logger.error('数据备份失败:', error);
-          return '数据备份失败';
-        }
+      .option('anonymise', '-x 匿名备份')
+      .option('redact', '-r 清空消息内容')
+      .action(({ options }) => {
+        if (options.redact && !options.anonymise) return '清空消息内容仅适用于匿名备份';
+        return this.backup(options.all, options);
       });
 
     cmd.subcommand('.restore', '恢复数据', { authority: 4 })
       .usage('从本地的 JSON 文件中恢复统计数据。')
       .option('all', '-a 全量恢复')
-      .action(async ({ options }) => {
-        try {
-          const userTablePath = path.join(this.dataDir, 'analyse_user.json');
-          const usersToImport = JSON.parse(await fs.readFile(userTablePath, 'utf-8').catch(() => '[]'));
-          if (usersToImport.length) for (let i = 0; i < usersToImport.length; i += BATCH_SIZE) await this.ctx.database.upsert('analyse_user', usersToImport.slice(i, i + BATCH_SIZE));
-
-          const allUsers = await this.ctx.database.get('analyse_user', {});
-          const userToUidMap = new Map(allUsers.map(u => [`${u.channelId}:${u.userId}`, u.uid]));
-
-          const tablesToProcess = options.all ? ALL_TABLES.filter(t => t !== 'analyse_user') : DEFAULT_BACKUP_TABLES.filter(t => t !== 'analyse_user');
-
-          for (const tableName of tablesToProcess) {
-            const filepath = path.join(this.dataDir, `${tableName}.json`);
-            const recordsToImport = JSON.parse(await fs.readFile(filepath, 'utf-8').catch(() => '[]'));
-            if (!recordsToImport.length) continue;
-
-            const recordsWithUid = recordsToImport.map(r => {
-              const uid = userToUidMap.get(`${r.channelId}:${r.userId}`);
-              if (!uid) return null;
-              const { userId, channelId, ...rest } = r;
-              return { uid, ...rest };
-            }).filter(Boolean);
-
-            if (recordsWithUid.length > 0) for (let i = 0; i < recordsWithUid.length; i += BATCH_SIZE) await this.ctx.database.upsert(tableName, recordsWithUid.slice(i, i + BATCH_SIZE));
-          }
-          return '数据恢复成功';
-        } catch (error) {
-          this.ctx.logger.error('数据恢复失败:', error);
-          return '数据恢复失败';
-        }
-      });
+      .option('anonymous', '-x 从匿名备份恢复')
+      .action(({ options }) => this.restore(options.all, options.anonymous));
 
     cmd.subcommand('.clear', '清除数据', { authority: 4 })
       .usage(`清除指定统计数据，可精确控制清除范围。`)
       .option('table', '-t <table:string> 指定表名')
+      .option('platform', '-p <platform:string> 指定平台')
       .option('guild', '-g <guildId:string> 指定群组')
       .option('user', '-u <user:string> 指定用户')
       .option('days', '-d <days:number> 指定天数')
       .option('command', '-c <command:string> 指定命令')
       .option('limit', '-l <count:number> 指定次数')
       .option('all', '-a 全部清除')
-      .action(async ({ options }) => {
-        if (Object.keys(options).length === 0) return '请指定清除条件';
-        if (options.table && !ALL_TABLES.includes(options.table as keyof Tables)) return `表名 ${options.table} 无效`;
-
-        try {
-          if (options.all) {
-            await Promise.all(ALL_TABLES.map(tableName => this.ctx.database.drop(tableName)));
-            return '已清除所有数据，请重新初始化插件';
-          }
-
-          const query: any = {};
-          const descParts: string[] = [];
-          let uidsToClear: number[] | undefined;
-
-          if (options.limit > 0) {
-            descParts.push(`发言数 < ${options.limit}`);
-            const msgStats = await this.ctx.database.select('analyse_msg').groupBy('uid', { total: row => $.sum(row.count) }).execute();
-            const uidsFromLimit = msgStats.filter(s => s.total < options.limit).map(s => s.uid);
-            if (uidsFromLimit.length === 0) return '未找到相关数据';
-            uidsToClear = uidsFromLimit;
-          }
-
-          if (options.guild || options.user) {
-            const userQuery: any = {};
-            if (options.guild) { userQuery.channelId = options.guild; descParts.push(`群组 ${options.guild}`); }
-            if (options.user) {
-              const userId = Element.select(options.user, 'at')[0]?.attrs.id ?? options.user;
-              userQuery.userId = userId;
-              descParts.push(`用户 ${userId}`);
-            }
-            const uidsFromScope = (await this.ctx.database.get('analyse_user', userQuery)).map(u => u.uid);
-
-            if (uidsToClear) {
-              const scopeUidSet = new Set(uidsFromScope);
-              uidsToClear = uidsToClear.filter(uid => scopeUidSet.has(uid));
-            } else {
-              uidsToClear = uidsFromScope;
-            }
-          }
-
-          if (uidsToClear) {
-            if (uidsToClear.length === 0) return '未找到相关数据';
-            query.uid = { $in: [...new Set(uidsToClear)] };
-          }
-
-          if (options.days > 0) {
-            query.timestamp = { $lt: new Date(Date.now() - options.days * Time.day) };
-            descParts.push(`${options.days} 天前`);
-          }
-
-          if (options.command) {
-            query.command = options.command;
-            descParts.push(`命令 ${options.command}`);
-          }
-
-          const tablesToClear = options.command
-            ? ['analyse_cmd']
-            : (options.table ? [options.table] : ALL_TABLES.filter(t => t !== 'analyse_user'));
-
-          let totalRemoved = 0;
-          for (const tableName of tablesToClear) {
-            const tableQuery = { ...query };
-            if (tableName !== 'analyse_cmd' && tableQuery.command) continue;
-            const result = await this.ctx.database.remove(tableName as any, tableQuery);
-            totalRemoved += result.removed;
-          }
-
-          if (totalRemoved === 0) return '未找到相关数据';
-
-          const tableString = options.table ? `表 ${options.table}` : '所有表';
-          const descString = descParts.join('、');
-
-          if (descString) {
-            return `已清除${tableString}中 ${descString} 的数据`;
-          } else {
-            return `已清除${tableString}中的所有数据`;
-          }
-
-        } catch (error) {
-          this.ctx.logger.error('数据清理失败:', error);
-          return '数据清理失败';
-        }
-      });
+      .action(({ session, options }) => this.clear((options.guild || options.user) && !options.platform ? { ...options, platform: session.platform } : options));
 
     if (this.config.enableOriRecord) {
       cmd.subcommand('.archive [date:date]', '手动归档', { authority: 4 })
@@ -268,7 +391,7 @@ export class Data {
               const userInfo = uidToUserInfoMap.get(record.uid);
               if (!userInfo) return null;
               const { id, uid, ...restOfRecord } = record;
-              return { userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
+              return { platform: userInfo.platform, userId: userInfo.userId, channelId: userInfo.channelId, ...restOfRecord };
             }).filter(Boolean);
 
             if (dataToExport.length > 0) {
@@ -291,7 +414,7 @@ export class Data {
           if (time && isNaN(until.getTime())) return '时间格式无效';
 
           try {
-            const userQuery: any = {};
+            const userQuery: any = { platform: matchPlatform(session.platform) };
             const effectiveChannelId = session.guildId || session.channelId;
             if (!options.guild && !options.user) {
               if (!effectiveChannelId) return '请指定查询范围';
@@ -324,7 +447,7 @@ export class Data {
               const senderInfo = userInfoMap.get(record.uid) || { name: `UID ${record.uid}`, id: 'unknown' };
               const timeStr = record.timestamp.toLocaleTimeString('zh-CN', { hour12: false });
               const author = h('author', { id: senderInfo.id, name: senderInfo.name });
-              const content = h.text(`[${timeStr}] ${record.content}`);
+              const content = h.text(`[${timeStr}]${record.recalled ? '[已撤回]' : ''} ${record.content}`);
               return h('message', {}, [author, content]);
             });
 
@@ -0,0 +1,131 @@
+import { Context, Command, Session, h } from 'koishi';
+import { Config } from './index';
+
+// 扩展数据表接口
+declare module 'koishi' {
+  interface Tables {
+    analyse_link: { platform: string; userId: string; pid: number };
+  }
+}
+
+/**
+ * @function matchPlatform
+ * @description 构造匹配指定平台的查询条件，同时匹配旧版本遗留的、尚未补全平台信息的用户记录。
+ * @param platform - 平台名称。
+ * @returns 平台字段的查询条件。
+ */
+export function matchPlatform(platform: string) {
+  return { $in: [platform, ''] };
+}
+
+/**
+ * @function matchAccounts
+ * @description 构造匹配一组账号的用户记录查询条件，用于 `$or` 查询。
+ * @param accounts - 包含平台和用户 ID 的账号数组。
+ * @returns 查询条件数组。
+ */
+export function matchAccounts(accounts: { platform: string; userId: string }[]) {
+  return accounts.map(({ platform, userId }) => ({ platform: matchPlatform(platform), userId }));
+}
+
+/**
+ * @function resolveLinkedAccounts
+ * @description 查询与指定账号关联为同一身份的所有账号，未关联时仅返回该账号本身。
+ * @param ctx - Koishi 的插件上下文。
+ * @param platform - 账号所属平台。
+ * @param userId - 账号的用户 ID。
+ * @returns 包含平台和用户 ID 的账号数组。
+ */
+export async function resolveLinkedAccounts(ctx: Context, platform: string, userId: string): Promise<{ platform: string; userId: string }[]> {
+  const [link] = await ctx.database.get('analyse_link', { platform, userId });
+  if (!link) return [{ platform, userId }];
+  return ctx.database.get('analyse_link', { pid: link.pid }, ['platform', 'userId']);
+}
+
+/**
+ * @class Identity
+ * @description 负责跨平台、跨账号的身份关联，使多个账号可以作为同一用户进行统计。
+ */
+export class Identity {
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   */
+  constructor(private ctx: Context, private config: Config) {
+    this.ctx.model.extend('analyse_link', { platform: 'string', userId: 'string', pid: 'unsigned' }, { primary: ['platform', 'userId'], indexes: ['pid'] });
+  }
+
+  /**
+   * @private @method parseAccount
+   * @description 将 @ 元素、`平台:用户ID` 或纯用户 ID 解析为账号，未指定平台时使用当前平台。
+   * @param session - 当前会话对象。
+   * @param input - 用户输入。
+   * @returns 包含平台和用户 ID 的账号对象。
+   */
+  private parseAccount(session: Session, input: string): { platform: string; userId: string } {
+    const atId = h.select(input, 'at')[0]?.attrs.id;
+    if (atId) return { platform: session.platform, userId: atId };
+    const text = input.trim();
+    const separator = text.indexOf(':');
+    if (separator > 0) return { platform: text.slice(0, separator), userId: text.slice(separator + 1) };
+    return { platform: session.platform, userId: text };
+  }
+
+  /**
+   * @public @method registerCommands
+   * @description 在主命令下注册身份关联相关的子命令。
+   * @param cmd - 主命令实例。
+   */
+  public registerCommands(cmd: Command) {
+    cmd.subcommand('.link <user:string> <target:string>', '关联账号', { authority: 4 })
+      .usage('将两个账号关联为同一用户，使用“平台:用户ID”指定其他平台的账号。')
+      .example('analyse.link @用户 telegram:123456')
+      .action(async ({ session }, user, target) => {
+        if (!user || !target) return '请指定需要关联的账号';
+        const accountA = this.parseAccount(session, user);
+        const accountB = this.parseAccount(session, target);
+        if (accountA.platform === accountB.platform && accountA.userId === accountB.userId) return '无法关联同一账号';
+
+        try {
+          const [linkA] = await this.ctx.database.get('analyse_link', accountA);
+          const [linkB] = await this.ctx.database.get('analyse_link', accountB);
+          if (linkA && linkB && linkA.pid === linkB.pid) return '账号已关联';
+
+          if (linkA && linkB) {
+            await this.ctx.database.set('analyse_link', { pid: linkB.pid }, { pid: linkA.pid });
+          } else if (linkA || linkB) {
+            const { pid } = linkA ?? linkB;
+            await this.ctx.database.upsert('analyse_link', [{ ...(linkA ? accountB : accountA), pid }]);
+          } else {
+            const [last] = await this.ctx.database.get('analyse_link', {}, { sort: { pid: 'desc' }, limit: 1 });
+            const pid = (last?.pid ?? 0) + 1;
+            await this.ctx.database.upsert('analyse_link', [{ ...accountA, pid }, { ...accountB, pid }]);
+          }
+          return `已关联 ${accountA.platform}:${accountA.userId} 与 ${accountB.platform}:${accountB.userId}`;
+        } catch (error) {
+          this.ctx.logger.error('关联账号失败:', error);
+          return '关联账号失败';
+        }
+      });
+
+    cmd.subcommand('.unlink <user:string>', '取消关联', { authority: 4 })
+      .usage('将账号从其关联的用户中移除。')
+      .action(async ({ session }, user) => {
+        if (!user) return '请指定需要取消关联的账号';
+        const account = this.parseAccount(session, user);
+
+        try {
+          const [link] = await this.ctx.database.get('analyse_link', account);
+          if (!link) return '该账号未关联';
+          await this.ctx.database.remove('analyse_link', account);
+          // 仅剩一个账号时身份失去意义，一并移除
+          const rest = await this.ctx.database.get('analyse_link', { pid: link.pid });
+          if (rest.length === 1) await this.ctx.database.remove('analyse_link', { pid: link.pid });
+          return `已取消关联 ${account.platform}:${account.userId}`;
+        } catch (error) {
+          this.ctx.logger.error('取消关联失败:', error);
+          return '取消关联失败';
+        }
+      });
+  }
+}
@@ -0,0 +1,141 @@
+import { Command, Context } from 'koishi';
+
+/**
+ * @function escapeLabel
+ * @description 按 Prometheus 文本格式转义标签值中的反斜杠、双引号和换行符。
+ * @param value - 原始标签值。
+ * @returns 转义后的标签值。
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * @class Metrics
+ * @description 记录插件自身的运行指标，包括消息收集、数据库刷写、图片渲染和指令调用，并以 Prometheus 文本格式输出。
+ */
+export class Metrics {
+  private messagesTotal = 0;
+  private flush = { count: 0, failures: 0, durationSum: 0, lastDuration: 0, lastSuccess: 0 };
+  private render = { count: 0, failures: 0, durationSum: 0 };
+  private commandCounts = new Map<string, number>();
+  private droppedCounts = new Map<string, number>();
+  private bufferProvider: () => Record<string, number> = () => ({});
+  private rootCommand: Command | undefined;
+
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   */
+  constructor(private ctx: Context) {
+    this.ctx.on('command/before-execute', ({ command }) => {
+      if (!this.isOwnCommand(command)) return;
+      this.commandCounts.set(command.name, (this.commandCounts.get(command.name) || 0) + 1);
+    });
+  }
+
+  /**
+   * @public @method recordMessage
+   * @description 记录一条被收集的消息。
+   */
+  public recordMessage() {
+    this.messagesTotal++;
+  }
+
+  /**
+   * @public @method recordFlush
+   * @description 记录一次数据库刷写的耗时与结果。
+   * @param duration - 刷写耗时（毫秒）。
+   * @param success - 刷写是否成功。
+   */
+  public recordFlush(duration: number, success: boolean) {
+    this.flush.count++;
+    this.flush.durationSum += duration / 1000;
+    this.flush.lastDuration = duration / 1000;
+    if (success) {
+      this.flush.lastSuccess = Date.now() / 1000;
+    } else {
+      this.flush.failures++;
+    }
+  }
+
+  /**
+   * @public @method recordDropped
+   * @description 记录因缓冲区超出上限而被丢弃的记录数。
+   * @param buffer - 缓冲区名称。
+   * @param count - 丢弃的记录数。
+   */
+  public recordDropped(buffer: string, count: number) {
+    this.droppedCounts.set(buffer, (this.droppedCounts.get(buffer) || 0) + count);
+  }
+
+  /**
+   * @public @method recordRender
+   * @description 记录一次图片渲染的耗时与结果。
+   * @param duration - 渲染耗时（毫秒）。
+   * @param success - 渲染是否成功。
+   */
+  public recordRender(duration: number, success: boolean) {
+    this.render.count++;
+    this.render.durationSum += duration / 1000;
+    if (!success) this.render.failures++;
+  }
+
+  /**
+   * @private @method isOwnCommand
+   * @description 判断指令是否为插件主命令或其下注册的子命令。
+   * @param command - 指令实例。
+   * @returns 属于本插件时返回 true。
+   */
+  private isOwnCommand(command: Command): boolean {
+    for (let current = command; current; current = current.parent) if (current === this.rootCommand) return true;
+    return false;
+  }
+
+  /**
+   * @public @method setRootCommand
+   * @description 设置插件的主命令，仅统计主命令及其子命令的调用次数。
+   * @param command - 主命令实例。
+   */
+  public setRootCommand(command: Command) {
+    this.rootCommand = command;
+  }
+
+  /**
+   * @public @method setBufferProvider
+   * @description 设置用于读取当前各缓冲区大小的回调，在输出指标时调用。
+   * @param provider - 返回缓冲区名称与记录数的回调。
+   */
+  public setBufferProvider(provider: () => Record<string, number>) {
+    this.bufferProvider = provider;
+  }
+
+  /**
+   * @public @method toText
+   * @description 将当前所有指标输出为 Prometheus 文本格式。
+   * @returns 指标文本。
+   */
+  public toText(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: [string, number][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [suffix, value] of samples) lines.push(`${name}${suffix} ${value}`);
+    };
+
+    metric('chat_analyse_messages_total', 'counter', 'Messages collected by the listener.', [['', this.messagesTotal]]);
+    metric('chat_analyse_flush_total', 'counter', 'Database flushes of the collector buffers.', [['', this.flush.count]]);
+    metric('chat_analyse_flush_failures_total', 'counter', 'Database flushes that failed.', [['', this.flush.failures]]);
+    metric('chat_analyse_flush_duration_seconds', 'summary', 'Time spent flushing buffers to the database.', [['_sum', this.flush.durationSum], ['_count', this.flush.count]]);
+    metric('chat_analyse_flush_last_duration_seconds', 'gauge', 'Duration of the most recent flush.', [['', this.flush.lastDuration]]);
+    metric('chat_analyse_flush_last_success_timestamp_seconds', 'gauge', 'Unix time of the most recent successful flush.', [['', this.flush.lastSuccess]]);
+    metric('chat_analyse_buffer_size', 'gauge', 'Records waiting in each collector buffer.',
+      Object.entries(this.bufferProvider()).map(([buffer, size]) => [`{buffer="${escapeLabel(buffer)}"}`, size]));
+    metric('chat_analyse_dropped_records_total', 'counter', 'Buffered records dropped because the buffer limit was exceeded.',
+      Array.from(this.droppedCounts.entries(), ([buffer, count]) => [`{buffer="${escapeLabel(buffer)}"}`, count]));
+    metric('chat_analyse_render_duration_seconds', 'summary', 'Time spent rendering images.', [['_sum', this.render.durationSum], ['_count', this.render.count]]);
+    metric('chat_analyse_render_failures_total', 'counter', 'Image renders that failed.', [['', this.render.failures]]);
+    metric('chat_analyse_command_invocations_total', 'counter', 'Command invocations by command name.',
+      Array.from(this.commandCounts.entries(), ([command, count]) => [`{command="${escapeLabel(command)}"}`, count]));
+
+    return lines.join('\n') + '\n';
+  }
+}
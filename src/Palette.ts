@@ -0,0 +1,100 @@
+/** 折线图使用的分类色板（Paul Tol bright），对常见色觉障碍友好。 */
+export const SERIES_PALETTE = ['#4477AA', '#EE6677', '#228833', '#CCBB44', '#66CCEE', '#AA3377'];
+/** 数据系列多于色板颜色数时依次使用的线型：实线、虚线、点线。 */
+const DASH_PATTERNS = ['', '6 4', '2 3'];
+/** 数据系列多于色板颜色数时使用的数据点标记。 */
+const MARKERS = ['circle', 'square', 'triangle', 'diamond'] as const;
+
+/**
+ * @interface SeriesStyle
+ * @description 定义单个数据系列的绘制样式，`marker` 为空时不绘制数据点。
+ */
+export interface SeriesStyle {
+  color: string;
+  dash: string;
+  marker: typeof MARKERS[number] | null;
+}
+
+/**
+ * @function hashKey
+ * @description 使用 FNV-1a 计算字符串的哈希值，保证同一键在每次渲染中得到相同的结果。
+ * @param key - 字符串键。
+ * @returns 32 位无符号哈希值。
+ */
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * @function assignSeriesStyles
+ * @description 按数据系列的键为每组数据分配固定的样式，冲突时顺延到下一个空闲样式，保证同一组数据中样式互不相同。
+ *   数据系列不超过色板颜色数时仅区分颜色，否则同时组合线型并绘制数据点标记。
+ * @param series - 数据系列数组，未提供 `key` 时以名称作为键。
+ * @returns 与数据系列逐项对应的样式。
+ */
+export function assignSeriesStyles(series: { name: string; key?: string }[]): SeriesStyle[] {
+  const styled = series.length > SERIES_PALETTE.length;
+  const slotCount = styled ? SERIES_PALETTE.length * DASH_PATTERNS.length : SERIES_PALETTE.length;
+  const used = new Set<number>();
+  return series.map(s => {
+    let slot = hashKey(s.key ?? s.name) % slotCount;
+    if (used.size < slotCount) while (used.has(slot)) slot = (slot + 1) % slotCount;
+    used.add(slot);
+    return {
+      color: SERIES_PALETTE[slot % SERIES_PALETTE.length],
+      dash: styled ? DASH_PATTERNS[Math.floor(slot / SERIES_PALETTE.length)] : '',
+      marker: styled ? MARKERS[slot % MARKERS.length] : null,
+    };
+  });
+}
+
+/**
+ * @function renderMarker
+ * @description 生成数据点标记的 SVG 元素。
+ * @param style - 数据系列的样式。
+ * @param x - 标记中心的横坐标。
+ * @param y - 标记中心的纵坐标。
+ * @param size - 标记的半径。
+ * @returns SVG 元素字符串，样式不含标记时返回空字符串。
+ */
+export function renderMarker(style: SeriesStyle, x: number, y: number, size = 3.5): string {
+  switch (style.marker) {
+    case 'circle': return `<circle cx="${x}" cy="${y}" r="${size}" fill="${style.color}"/>`;
+    case 'square': return `<rect x="${x - size}" y="${y - size}" width="${size * 2}" height="${size * 2}" fill="${style.color}"/>`;
+    case 'triangle': return `<path d="M ${x} ${y - size} L ${x + size} ${y + size} L ${x - size} ${y + size} Z" fill="${style.color}"/>`;
+    case 'diamond': return `<path d="M ${x} ${y - size} L ${x + size} ${y} L ${x} ${y + size} L ${x - size} ${y} Z" fill="${style.color}"/>`;
+    default: return '';
+  }
+}
+
+/**
+ * @function renderSeries
+ * @description 生成单个数据系列的折线及数据点标记。
+ * @param points - 数据点坐标数组。
+ * @param style - 数据系列的样式。
+ * @returns SVG 元素字符串。
+ */
+export function renderSeries(points: [number, number][], style: SeriesStyle): string {
+  const dash = style.dash ? ` stroke-dasharray="${style.dash}"` : '';
+  const line = `<polyline points="${points.map(([x, y]) => `${x},${y}`).join(' ')}" fill="none" stroke="${style.color}" stroke-width="2"${dash}/>`;
+  return line + points.map(([x, y]) => renderMarker(style, x, y)).join('');
+}
+
+/**
+ * @function renderLegendSample
+ * @description 生成图例中的样式示例。包含线型或标记时绘制带标记的短线，否则绘制色块。
+ * @param style - 数据系列的样式。
+ * @param x - 示例左侧的横坐标。
+ * @param y - 图例文字基线的纵坐标。
+ * @returns SVG 元素字符串。
+ */
+export function renderLegendSample(style: SeriesStyle, x: number, y: number): string {
+  if (!style.dash && !style.marker) return `<rect x="${x}" y="${y - 8}" width="12" height="8" fill="${style.color}" rx="2"/>`;
+  const dash = style.dash ? ` stroke-dasharray="${style.dash}"` : '';
+  return `<line x1="${x - 2}" y1="${y - 4}" x2="${x + 14}" y2="${y - 4}" stroke="${style.color}" stroke-width="2"${dash}/>` + renderMarker(style, x + 6, y - 4, 3);
+}
@@ -0,0 +1,221 @@
+import { Context, Command, Session, Tables, h } from 'koishi';
+import { Config } from './index';
+import { matchPlatform } from './Identity';
+
+// 扩展数据表接口
+declare module 'koishi' {
+  interface Tables {
+    analyse_optout: { platform: string; userId: string; all: boolean; timestamp: Date };
+  }
+}
+
+/** 定义以 uid 关联用户、需要在退出记录时清除的数据表。 */
+const UID_TABLES: (keyof Tables)[] = ['analyse_cmd', 'analyse_msg', 'analyse_rank', 'analyse_rank_daily', 'analyse_at', 'analyse_cache', 'analyse_recall', 'analyse_edge'];
+
+/**
+ * @class Privacy
+ * @description 负责隐私控制，包括按配置过滤记录的频道，以及用户主动退出、恢复数据记录和导出个人数据。
+ */
+export class Privacy {
+  private optouts = new Map<string, boolean>();
+  private listeners: ((uids: number[], all: boolean, account: { platform: string; userId: string }) => void)[] = [];
+  private channels: Set<string>;
+
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   */
+  constructor(private ctx: Context, private config: Config) {
+    this.channels = new Set(config.channelList);
+    this.ctx.model.extend('analyse_optout', { platform: 'string', userId: 'string', all: 'boolean', timestamp: 'timestamp' }, { primary: ['platform', 'userId'] });
+
+    this.ctx.on('ready', async () => {
+      const records = await this.ctx.database.get('analyse_optout', {});
+      for (const record of records) this.optouts.set(`${record.platform}:${record.userId}`, record.all);
+    });
+  }
+
+  /**
+   * @public @method isChannelAllowed
+   * @description 根据频道过滤配置判断是否记录指定频道，列表项可以是频道 ID 或 `平台:频道ID`。
+   * @param platform - 平台名称。
+   * @param channelId - 频道 ID。
+   * @returns 允许记录时返回 true。
+   */
+  public isChannelAllowed(platform: string, channelId: string): boolean {
+    const listed = this.channels.has(channelId) || this.channels.has(`${platform}:${channelId}`);
+    return this.config.channelMode === 'whitelist' ? listed : !listed;
+  }
+
+  /**
+   * @public @method getOptOut
+   * @description 查询用户的退出记录状态。
+   * @param platform - 平台名称。
+   * @param userId - 用户 ID。
+   * @returns 未退出时返回 null，仅停止记录消息内容时返回 'content'，停止全部记录时返回 'all'。
+   */
+  public getOptOut(platform: string, userId: string): 'content' | 'all' | null {
+    const all = this.optouts.get(`${platform}:${userId}`);
+    if (all === undefined) return null;
+    return all ? 'all' : 'content';
+  }
+
+  /**
+   * @public @method onOptOut
+   * @description 注册用户退出记录时的回调，用于同步清除内存中尚未写入的数据。
+   * @param listener - 接收被清除用户的 uid 列表、是否清除全部数据及其账号的回调。
+   */
+  public onOptOut(listener: (uids: number[], all: boolean, account: { platform: string; userId: string }) => void) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * @private @method purge
+   * @description 清除用户已记录的数据。仅清除消息内容时删除原始记录和提及记录，否则删除该用户的全部数据，
+   *   包括以其为目标的互动关系和提及记录，以及账号关联。
+   * @param platform - 平台名称。
+   * @param userId - 用户 ID。
+   * @param all - 是否清除全部数据。
+   * @returns 被清除的记录条数。
+   */
+  private async purge(platform: string, userId: string, all: boolean): Promise<number> {
+    const users = await this.ctx.database.get('analyse_user', { platform: matchPlatform(platform), userId }, ['uid', 'channelId']);
+    const uids = users.map(u => u.uid);
+    for (const listener of this.listeners) listener(uids, all, { platform, userId });
+    if (all) await this.ctx.database.remove('analyse_link', { platform: matchPlatform(platform), userId });
+    if (uids.length === 0) return 0;
+
+    const tables = all ? UID_TABLES : ['analyse_at', 'analyse_cache'] as (keyof Tables)[];
+    let removed = 0;
+    for (const table of tables) {
+      if (!this.ctx.model.tables[table]) continue;
+      removed += (await this.ctx.database.remove(table as any, { uid: { $in: uids } })).removed;
+    }
+    if (all) {
+      if (this.ctx.model.tables['analyse_edge']) removed += (await this.ctx.database.remove('analyse_edge', { target: { $in: uids } })).removed;
+      if (this.ctx.model.tables['analyse_at']) {
+        // 提及记录的目标为平台用户 ID，仅清除同一平台 (含未迁移的旧记录)、同一群组中的用户发出的提及
+        const senders = await this.ctx.database.get('analyse_user', { platform: matchPlatform(platform), channelId: { $in: users.map(u => u.channelId) } }, ['uid']);
+        removed += (await this.ctx.database.remove('analyse_at', { target: userId, uid: { $in: senders.map(u => u.uid) } })).removed;
+      }
+      await this.ctx.database.remove('analyse_user', { uid: { $in: uids } });
+    }
+    return removed;
+  }
+
+  /**
+   * @private @method exportUserData
+   * @description 汇总用户在当前平台所有群组中的记录，以群组 ID 代替内部 uid，互动关系的目标和提及者以名称表示。
+   * @param platform - 平台名称。
+   * @param userId - 用户 ID。
+   * @returns 包含各数据表记录的对象，未找到记录时返回 null。
+   */
+  private async exportUserData(platform: string, userId: string): Promise<Record<string, unknown> | null> {
+    const users = await this.ctx.database.get('analyse_user', { platform: matchPlatform(platform), userId });
+    if (users.length === 0) return null;
+    const uidToChannel = new Map(users.map(u => [u.uid, u.channelId]));
+
+    const data: Record<string, unknown> = {
+      platform, userId, exportedAt: new Date(),
+      analyse_user: users.map(({ uid, ...rest }) => rest),
+    };
+    for (const table of UID_TABLES) {
+      if (!this.ctx.model.tables[table]) continue;
+      const records = await this.ctx.database.get(table as any, { uid: { $in: [...uidToChannel.keys()] } });
+      if (records.length === 0) continue;
+      data[table] = records.map(({ uid, id, ...rest }) => ({ channelId: uidToChannel.get(uid), ...rest }));
+    }
+    if (data.analyse_edge) {
+      const edges = data.analyse_edge as { target: number }[];
+      const targets = await this.ctx.database.get('analyse_user', { uid: { $in: edges.map(edge => edge.target) } }, ['uid', 'userName']);
+      const targetNames = new Map(targets.map(u => [u.uid, u.userName]));
+      data.analyse_edge = edges.map(({ target, ...rest }) => ({ ...rest, targetName: targetNames.get(target) ?? '' }));
+    }
+    if (this.ctx.model.tables['analyse_at']) {
+      const senders = await this.ctx.database.get('analyse_user', { platform: matchPlatform(platform), channelId: { $in: users.map(u => u.channelId) } }, ['uid', 'channelId', 'userName']);
+      const senderMap = new Map(senders.map(u => [u.uid, u]));
+      const mentions = await this.ctx.database.get('analyse_at', { target: userId, uid: { $in: [...senderMap.keys()] } });
+      if (mentions.length) data.analyse_at_received = mentions.map(({ uid, content, timestamp }) => ({ channelId: senderMap.get(uid)?.channelId, userName: senderMap.get(uid)?.userName ?? '', content, timestamp }));
+    }
+    const [optout] = await this.ctx.database.get('analyse_optout', { platform, userId });
+    if (optout) data.analyse_optout = optout;
+    return data;
+  }
+
+  /**
+   * @private @method sendPrivately
+   * @description 通过私聊发送内容，当前已在私聊中时直接发送。
+   * @param session - 当前会话对象。
+   * @param content - 需要发送的内容。
+   */
+  private async sendPrivately(session: Session, content: h.Fragment) {
+    if (session.isDirect) {
+      await session.send(content);
+    } else {
+      await session.bot.sendPrivateMessage(session.userId, content, session.guildId);
+    }
+  }
+
+  /**
+   * @public @method registerCommands
+   * @description 根据配置，在主命令下注册退出记录、恢复记录和导出数据的子命令。
+   * @param cmd - 主命令实例。
+   */
+  public registerCommands(cmd: Command) {
+    if (this.config.enableOptOut) {
+      cmd.subcommand('.optout', '退出记录')
+        .usage('停止记录您的消息内容并清除已记录的内容，使用 -a 时同时停止统计并清除您的全部数据。')
+        .option('all', '-a 停止全部记录')
+        .action(async ({ session, options }) => {
+          const { platform, userId } = session;
+          const all = !!options.all;
+          const current = this.getOptOut(platform, userId);
+          if (current === 'all' || (current === 'content' && !all)) return '您已退出记录';
+
+          try {
+            await this.ctx.database.upsert('analyse_optout', [{ platform, userId, all, timestamp: new Date() }]);
+            this.optouts.set(`${platform}:${userId}`, all);
+            const removed = await this.purge(platform, userId, all);
+            return `已${all ? '停止记录您的全部数据' : '停止记录您的消息内容'}，并清除 ${removed} 条记录`;
+          } catch (error) {
+            this.ctx.logger.error('退出记录失败:', error);
+            return '退出记录失败';
+          }
+        });
+
+      cmd.subcommand('.optin', '恢复记录')
+        .usage('恢复记录您的消息数据，已清除的数据无法恢复。')
+        .action(async ({ session }) => {
+          const { platform, userId } = session;
+          if (!this.optouts.has(`${platform}:${userId}`)) return '您未退出记录';
+
+          try {
+            await this.ctx.database.remove('analyse_optout', { platform, userId });
+            this.optouts.delete(`${platform}:${userId}`);
+            return '已恢复记录您的消息数据';
+          } catch (error) {
+            this.ctx.logger.error('恢复记录失败:', error);
+            return '恢复记录失败';
+          }
+        });
+    }
+
+    if (this.config.enableMyData) {
+      cmd.subcommand('.mydata', '导出我的数据')
+        .usage('将插件记录的您在当前平台的所有数据打包为 JSON 文件，并通过私聊发送给您。')
+        .action(async ({ session }) => {
+          const { platform, userId } = session;
+          try {
+            const data = await this.exportUserData(platform, userId);
+            if (!data) return '暂无您的数据';
+            const file = h.file(Buffer.from(JSON.stringify(data, null, 2)), 'application/json', { title: `chat-analyse-${platform}-${userId}.json` });
+            await this.sendPrivately(session, file);
+            return session.isDirect ? undefined : '已通过私聊发送您的数据';
+          } catch (error) {
+            this.ctx.logger.error('导出用户数据失败:', error);
+            return '导出用户数据失败';
+          }
+        });
+    }
+  }
+}
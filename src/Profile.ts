@@ -0,0 +1,143 @@
+import { Context, Tables, Time } from 'koishi';
+import { Config } from './index';
+
+/** 定义解析用户资料所需的用户记录字段。 */
+export type ProfileUser = Pick<Tables['analyse_user'], 'uid' | 'platform' | 'channelId' | 'userId' | 'userName'>;
+
+/**
+ * @interface ProfileInfo
+ * @description 定义从平台获取并缓存的用户资料，`avatar` 为 data URI。
+ */
+export interface ProfileInfo {
+  name?: string;
+  nick?: string;
+  avatar?: string;
+}
+
+/**
+ * @class Profile
+ * @description 负责通过机器人获取用户的昵称、用户名和头像，并在本地缓存，用于在排行列表中展示。
+ */
+export class Profile {
+  /** 每次渲染最多获取资料的用户数，超出的用户使用记录的名称和首字头像。 */
+  private static readonly MAX_FETCH = 100;
+  /** 同时获取资料的最大用户数，避免短时间内向平台发出大量请求。 */
+  private static readonly CONCURRENCY = 5;
+  /** 获取用户资料和头像图片的超时时间。 */
+  private static readonly REQUEST_TIMEOUT = 5 * Time.second;
+
+  private cache = new Map<string, { info: ProfileInfo; expires: number }>();
+
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   */
+  constructor(private ctx: Context, private config: Config) {}
+
+  /**
+   * @private @method withTimeout
+   * @description 为平台接口调用添加超时，避免个别请求长时间阻塞渲染。
+   * @param promise - 平台接口调用。
+   * @returns 调用结果，超时时抛出错误。
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error('请求超时')), Profile.REQUEST_TIMEOUT); });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * @private @method fetchAvatar
+   * @description 下载头像图片并转换为 data URI，使 puppeteer 与 resvg 都无需在渲染时访问网络。
+   * @param url - 头像地址。
+   * @returns 头像的 data URI，下载失败时返回 undefined。
+   */
+  private async fetchAvatar(url: string): Promise<string | undefined> {
+    try {
+      const file = await this.ctx.http.file(url, { timeout: Profile.REQUEST_TIMEOUT });
+      return `data:${file.type || 'image/png'};base64,${Buffer.from(file.data).toString('base64')}`;
+    } catch (error) {
+      this.ctx.logger.debug('获取头像失败:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * @private @method fetchProfile
+   * @description 通过对应平台的机器人获取用户资料，优先使用群成员信息，失败时回退到用户信息。
+   * @param user - 用户记录。
+   * @param withAvatar - 是否下载头像。
+   * @returns 用户资料，获取失败时返回空对象。
+   */
+  private async fetchProfile(user: ProfileUser, withAvatar: boolean): Promise<ProfileInfo> {
+    const bot = this.ctx.bots.find(bot => bot.platform === user.platform);
+    if (!bot) return {};
+    const info: ProfileInfo = {};
+    let avatarUrl: string | undefined;
+    try {
+      const member = await this.withTimeout(bot.getGuildMember(user.channelId, user.userId));
+      info.nick = member.nick || member.name;
+      info.name = member.user?.name;
+      avatarUrl = member.avatar || member.user?.avatar;
+    } catch {
+      try {
+        const profile = await this.withTimeout(bot.getUser(user.userId, user.channelId));
+        info.name = profile.name;
+        info.nick = profile.nick;
+        avatarUrl = profile.avatar;
+      } catch (error) {
+        this.ctx.logger.debug('获取用户资料失败:', error);
+      }
+    }
+    if (withAvatar && avatarUrl) info.avatar = await this.fetchAvatar(avatarUrl);
+    return info;
+  }
+
+  /**
+   * @public @method resolve
+   * @description 批量获取用户资料，命中缓存时直接返回。获取失败的结果同样会被缓存，在缓存过期前不再重试。
+   * @param users - 用户记录数组，按展示顺序排列。
+   * @param withAvatar - 是否需要头像，输出文本时无需下载头像。
+   * @returns uid 到用户资料的映射。
+   */
+  public async resolve(users: ProfileUser[], withAvatar: boolean): Promise<Map<number, ProfileInfo>> {
+    const result = new Map<number, ProfileInfo>();
+    const needAvatar = withAvatar && this.config.enableAvatar;
+    if (!needAvatar && this.config.nameDisplay === 'recorded') return result;
+
+    const now = Date.now();
+    for (const [key, entry] of this.cache) if (entry.expires <= now) this.cache.delete(key);
+
+    const queue = users.slice(0, Profile.MAX_FETCH);
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length) {
+        const user = queue[next++];
+        const key = `${user.platform}:${user.channelId}:${user.userId}`;
+        let info = this.cache.get(key)?.info;
+        if (!info || (needAvatar && !('avatar' in info))) {
+          info = await this.fetchProfile(user, needAvatar);
+          // 记录头像获取失败，避免每次渲染都重新请求
+          if (needAvatar && !('avatar' in info)) info.avatar = undefined;
+          this.cache.set(key, { info, expires: now + this.config.profileCacheHours * Time.hour });
+        }
+        result.set(user.uid, info);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(Profile.CONCURRENCY, queue.length) }, worker));
+    return result;
+  }
+
+  /**
+   * @public @method getDisplayName
+   * @description 根据配置选择用户在列表中显示的名称。
+   * @param user - 用户记录。
+   * @param info - （可选）用户资料。
+   * @returns 显示名称。
+   */
+  public getDisplayName(user: ProfileUser, info?: ProfileInfo): string {
+    if (this.config.nameDisplay === 'nickname') return info?.nick || info?.name || user.userName;
+    if (this.config.nameDisplay === 'username') return info?.name || info?.nick || user.userName;
+    return user.userName;
+  }
+}
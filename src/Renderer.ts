@@ -3,47 +3,95 @@ import {} from 'koishi-plugin-puppeteer';
 import { WordCloudData } from './Analyse';
 import { wordCloudScript } from './wordcloud';
 import { Config } from './index';
+import { Metrics } from './Metrics';
+import { TextRenderer } from './TextRenderer';
+import { SvgRenderer } from './SvgRenderer';
+import { Theme, resolveTheme, themeToCss } from './Theme';
+import { assignSeriesStyles, renderLegendSample, renderSeries } from './Palette';
 
 /**
  * @interface ListRenderData
- * @description 定义了调用 `renderList` 方法所需的数据结构。
+ * @description 定义了调用 `renderList` 方法所需的数据结构。`avatars` 与 `list` 逐行对应，提供时在首列显示头像，值为空时显示名称首字。
  */
 export interface ListRenderData {
   title: string;
   time: Date;
   total?: string | number;
   list: (string | number | Date)[][];
+  avatars?: (string | null)[];
 }
 
 /**
  * @interface LineChartData
- * @description 定义了调用 `renderLineChart` 方法所需的数据结构，支持多组数据系列。
+ * @description 定义了调用 `renderLineChart` 方法所需的数据结构，支持多组数据系列。`key` 用于分配固定的颜色，未提供时使用 `name`。
  */
 export interface LineChartData {
   title: string;
   time: Date;
   series: {
     name: string;
+    key?: string;
     data: number[];
   }[];
   labels: string[];
 }
 
+/**
+ * @interface HeatmapData
+ * @description 定义了调用 `renderHeatmap` 方法所需的数据结构，`matrix[行][列]` 对应单元格数值。
+ */
+export interface HeatmapData {
+  title: string;
+  time: Date;
+  rowLabels: string[];
+  colLabels: string[];
+  matrix: number[][];
+}
+
+/**
+ * @interface GraphData
+ * @description 定义了调用 `renderGraph` 方法所需的数据结构，`edges` 中的 `source`/`target` 为节点下标。
+ */
+export interface GraphData {
+  title: string;
+  time: Date;
+  nodes: {
+    name: string;
+    value: number;
+  }[];
+  edges: {
+    source: number;
+    target: number;
+    weight: number;
+  }[];
+}
+
+/**
+ * @interface RenderOptions
+ * @description 定义了单次渲染的可选参数。
+ */
+export interface RenderOptions {
+  /** 是否以纯文本代替图片输出。 */
+  text?: boolean;
+  /** 发起渲染的群组 ID，用于选择群组主题。 */
+  guildId?: string;
+}
+
 /**
  * @class Renderer
- * @description 负责将结构化的数据渲染为设计精美的 PNG 图片。
+ * @description 负责将结构化的数据渲染为设计精美的 PNG 图片，无法使用 puppeteer 或指定以文本输出时改用纯文本。
  */
 export class Renderer {
+  /** 纯文本渲染器，用于文本模式和图片渲染失败时的回退。 */
+  public readonly text = new TextRenderer();
+  /** SVG 渲染器，仅在使用 resvg 渲染时创建，用于不经过浏览器渲染列表、折线图和热力图。 */
+  private readonly svg: SvgRenderer | null;
+  /** resvg 渲染时下载的远程背景图片，以地址为键缓存其 data URI，下载失败时缓存为 null。 */
+  private readonly backgrounds = new Map<string, string | null>();
+
   private readonly COMMON_STYLE = `
-    :root {
-      --card-bg: #fff; --text-color: #111827; --header-color: #111827;
-      --sub-text-color: #6b7280; --border-color: #e5e7eb; --accent-color: #4a6ee0;
-      --chip-bg: #f3f4f6; --stripe-bg: #f9fafb; --gold: #f59e0b;
-      --silver: #9ca3af; --bronze: #a16207;
-    }
     body {
-      display: inline-block; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI',
-      Roboto, 'Helvetica Neue', Arial, sans-serif;
+      display: inline-block;
       background: transparent; margin: 0; padding: 8px;
       -webkit-font-smoothing: antialiased;
     }
@@ -78,8 +126,67 @@ export class Renderer {
    * @constructor
    * @description Renderer 类的构造函数。
    * @param {Context} ctx - Koishi 的插件上下文，用于访问 logger 和 puppeteer 服务。
+   * @param {Config} config - 插件的配置对象。
+   * @param {Metrics} [metrics] - 运行指标记录器，用于记录渲染耗时。
    */
-  constructor(private ctx: Context) {}
+  constructor(private ctx: Context, private config: Config, private metrics?: Metrics) {
+    this.svg = config.renderBackend === 'resvg' ? new SvgRenderer(date => this.formatDate(date)) : null;
+  }
+
+  /**
+   * @public
+   * @method useText
+   * @description 判断本次渲染是否应直接输出纯文本。
+   * @param {RenderOptions} options - 本次渲染的可选参数。
+   * @param {boolean} [svgSupported] - 该图表是否支持不经过浏览器的 SVG 渲染。
+   * @returns {boolean} - 指定以文本输出、配置为文本模式或没有可用的图片渲染方式时返回 true。
+   */
+  public useText(options: RenderOptions, svgSupported = false): boolean {
+    if (options.text || this.config.renderMode === 'text') return true;
+    return !(svgSupported && this.svg) && !this.ctx.get('puppeteer');
+  }
+
+  /**
+   * @private
+   * @method resolveSvgTheme
+   * @description resvg 不会在渲染时下载远程图片，因此将主题中的远程背景图片预先下载为 data URI，下载失败时不使用背景。
+   * @param {Theme} theme - 卡片使用的主题。
+   * @returns {Promise<Theme>} - 可直接用于 resvg 渲染的主题。
+   */
+  private async resolveSvgTheme(theme: Theme): Promise<Theme> {
+    const url = theme.background;
+    if (!this.svg || !url || !/^https?:\/\//i.test(url)) return theme;
+    if (!this.backgrounds.has(url)) {
+      try {
+        const file = await this.ctx.http.file(url, { timeout: 10 * Time.second });
+        this.backgrounds.set(url, `data:${file.type || 'image/png'};base64,${Buffer.from(file.data).toString('base64')}`);
+      } catch (error) {
+        this.ctx.logger.warn('获取背景图片失败:', error);
+        this.backgrounds.set(url, null);
+      }
+    }
+    return { ...theme, background: this.backgrounds.get(url) ?? undefined };
+  }
+
+  /**
+   * @private
+   * @method svgToImage
+   * @description 使用 resvg 将 SVG 卡片栅格化为 PNG 图片的 Buffer。
+   * @param {() => string} build - 生成 SVG 字符串的函数。
+   * @returns {Buffer | null} - 成功时返回包含 PNG 图片数据的 Buffer，失败则返回 null。
+   */
+  private svgToImage(build: () => string): Buffer | null {
+    const startTime = Date.now();
+    try {
+      const image = this.svg.toImage(build());
+      this.metrics?.recordRender(Date.now() - startTime, true);
+      return image;
+    } catch (error) {
+      this.metrics?.recordRender(Date.now() - startTime, false);
+      this.ctx.logger.error('图片渲染失败:', error);
+      return null;
+    }
+  }
 
   /**
    * @private
@@ -87,14 +194,15 @@ export class Renderer {
    * @description 将卡片内容和特定样式组合成一个完整的 HTML 文档，以便进行渲染。
    * @param {string} cardContent - 卡片主体部分的 HTML 字符串。
    * @param {string} specificStyles - 针对该卡片类型的特定 CSS 样式字符串。
+   * @param {Theme} theme - 卡片使用的主题。
    * @returns {string} - 一个完整的、可被浏览器渲染的 HTML 字符串。
    */
-  private generateFullHtml(cardContent: string, specificStyles: string): string {
+  private generateFullHtml(cardContent: string, specificStyles: string, theme: Theme): string {
     return `<!DOCTYPE html>
       <html>
         <head>
           <meta charset="UTF-8">
-          <style>${this.COMMON_STYLE}${specificStyles}</style>
+          <style>${this.COMMON_STYLE}${themeToCss(theme)}${specificStyles}</style>
         </head>
         <body>
           ${cardContent}
@@ -110,8 +218,10 @@ export class Renderer {
    * @returns {Promise<Buffer | null>} - 成功时返回包含 PNG 图片数据的 Buffer，失败则返回 null。
    */
   private async htmlToImage(fullHtmlContent: string): Promise<Buffer | null> {
-    const page = await this.ctx.puppeteer.page();
+    const startTime = Date.now();
+    let page: Awaited<ReturnType<Context['puppeteer']['page']>>;
     try {
+      page = await this.ctx.puppeteer.page();
       await page.setViewport({ width: 800, height: 600, deviceScaleFactor: 1.0 });
       await page.setContent(fullHtmlContent, { waitUntil: 'networkidle0' });
       const { width, height } = await page.evaluate(() => ({
@@ -119,12 +229,15 @@ export class Renderer {
           height: document.body.scrollHeight
       }));
       await page.setViewport({ width, height, deviceScaleFactor: 1.0 });
-      return await page.screenshot({ type: 'png', omitBackground: true });
+      const image = await page.screenshot({ type: 'png', omitBackground: true });
+      this.metrics?.recordRender(Date.now() - startTime, true);
+      return image;
     } catch (error) {
+      this.metrics?.recordRender(Date.now() - startTime, false);
       this.ctx.logger.error('图片渲染失败:', error);
       return null;
     } finally {
-      if (page && !page.isClosed()) await page.close()
+      if (page && !page.isClosed()) await page.close();
     }
   }
 
@@ -154,20 +267,36 @@ export class Renderer {
    * @description 将表格型数据渲染成列表形式的图片。如果数据过多，会通过异步生成器逐个产出图片。
    * @param {ListRenderData} data - 包含标题、时间、总计和列表数据的对象。
    * @param {string[]} [headers] - （可选）列表的表头数组。
-   * @returns {AsyncGenerator<Buffer>} - 一个异步生成器，每次迭代产出一张图片的 Buffer。
+   * @param {RenderOptions} [options] - （可选）本次渲染的可选参数。
+   * @returns {AsyncGenerator<Buffer | string>} - 一个异步生成器，每次迭代产出一张图片的 Buffer 或一段文本。
    */
-  public async *renderList(data: ListRenderData, headers?: string[]): AsyncGenerator<Buffer> {
+  public async *renderList(data: ListRenderData, headers?: string[], options: RenderOptions = {}): AsyncGenerator<Buffer | string> {
+    if (this.useText(options, true)) {
+      yield* this.text.renderList(data, headers);
+      return;
+    }
+    const theme = await this.resolveSvgTheme(resolveTheme(this.config, options.guildId));
     const { title, time, list } = data;
     const CHUNK_SIZE = 200;
     const totalItems = list.length;
     const countHeaderIndex = headers?.findIndex(h => ['总计发言', '条数', '次数', '数量'].includes(h)) ?? -1;
     const totalCount = data.total || (countHeaderIndex > -1 ? list.reduce((sum, row) => sum + (Number(row[countHeaderIndex]) || 0), 0) : totalItems);
 
-    const renderCell = (cell: any, i: number) => {
+    const renderAvatar = (name: string, avatar: string | null) => avatar
+      ? `<img class="avatar" src="${avatar}"/>`
+      : `<span class="avatar avatar-initial">${Array.from(name)[0]?.toUpperCase() ?? ''}</span>`;
+
+    const renderCell = (cell: any, i: number, avatar?: string | null) => {
       const headerText = headers?.[i] || '';
+      if (i === 0 && avatar !== undefined) return `<td class="name-cell"><div class="name-with-avatar">${renderAvatar(String(cell), avatar)}<span>${String(cell)}</span></div></td>`;
       if (headerText.includes('占比')) {
         return `<td class="percent-cell"><div class="percent-bar" style="width: ${String(cell)};"></div><span class="percent-text">${cell}</span></td>`;
       }
+      if (headerText.includes('变化') || headerText === '增减') {
+        const text = String(cell);
+        const trendClass = text === 'NEW' ? 'trend-new' : /^[↑+]/.test(text) ? 'trend-up' : /^[↓-]\d/.test(text) ? 'trend-down' : '';
+        return `<td class="trend-cell ${trendClass}">${text}</td>`;
+      }
       if (cell instanceof Date) return `<td class="date-cell">${this.formatDate(cell)}</td>`;
       if (typeof cell === 'number') return `<td class="count-cell">${cell.toLocaleString()}</td>`;
       return `<td class="name-cell">${String(cell)}</td>`;
@@ -183,6 +312,9 @@ export class Renderer {
       .main-table tbody tr:nth-child(even) { background-color: var(--stripe-bg); }
       .rank-cell, .count-cell, .date-cell, .percent-cell { text-align: right; white-space: nowrap; width: 1%; font-variant-numeric: tabular-nums; }
       .name-cell { font-weight: 500; }
+      .name-with-avatar { display: flex; align-items: center; gap: 8px; }
+      .avatar { width: 22px; height: 22px; border-radius: 50%; flex-shrink: 0; object-fit: cover; }
+      .avatar-initial { display: inline-flex; align-items: center; justify-content: center; font-size: 12px; font-weight: 600; color: var(--accent-color); background: var(--chip-bg); }
       .rank-cell { font-weight: 600; color: var(--sub-text-color); }
       .count-cell { font-weight: 600; color: var(--accent-color); }
       .rank-gold, .rank-silver, .rank-bronze { font-weight: 700; }
@@ -192,6 +324,10 @@ export class Renderer {
       .percent-cell { position: relative; padding-right: 20px; }
       .percent-bar { position: absolute; top: 50%; right: 0; transform: translateY(-50%); height: 6px; background-color: var(--accent-color); opacity: .2; border-radius: 3px; }
       .percent-text { position: relative; z-index: 1; }
+      .trend-cell { text-align: right; white-space: nowrap; width: 1%; font-weight: 600; color: var(--sub-text-color); font-variant-numeric: tabular-nums; }
+      .trend-up { color: var(--up-color) !important; }
+      .trend-down { color: var(--down-color) !important; }
+      .trend-new { color: var(--accent-color) !important; }
     `;
 
     for (let i = 0; i < totalItems; i += CHUNK_SIZE) {
@@ -220,16 +356,21 @@ export class Renderer {
                 ${chunk.map((row, index) => {
                   const rank = i + index + 1;
                   const rankClass = rank === 1 ? 'rank-gold' : rank === 2 ? 'rank-silver' : rank === 3 ? 'rank-bronze' : '';
-                  return `<tr><td class="rank-cell ${rankClass}">${rank}</td>${row.map(renderCell).join('')}</tr>`;
+                  return `<tr><td class="rank-cell ${rankClass}">${rank}</td>${row.map((cell, col) => renderCell(cell, col, data.avatars ? data.avatars[i + index] ?? null : undefined)).join('')}</tr>`;
                 }).join('')}
               </tbody>
             </table>
           </div>
         </div>`;
 
-      const fullHtml = this.generateFullHtml(cardHtml, listStyles);
-      const imageBuffer = await this.htmlToImage(fullHtml);
-      if (imageBuffer) yield imageBuffer;
+      const imageBuffer = this.svg
+        ? this.svgToImage(() => this.svg.renderList({ title: pageTitle, time, total: totalCount, list: chunk, avatars: data.avatars?.slice(i, i + CHUNK_SIZE) }, headers, i, theme))
+        : await this.htmlToImage(this.generateFullHtml(cardHtml, listStyles, theme));
+      if (imageBuffer) {
+        yield imageBuffer;
+      } else if (this.config.textFallback) {
+        yield* this.text.renderList({ title: pageTitle, time, total: totalCount, list: chunk }, headers, i);
+      }
     }
   }
 
@@ -238,16 +379,17 @@ export class Renderer {
    * @method renderLineChart
    * @description 将时间序列数据（如活跃度）渲染成一张基于 SVG 的折线图。支持单组或多组数据进行对比。
    * @param {LineChartData} data - 包含标题、时间、数据系列和标签的对象。
-   * @returns {AsyncGenerator<Buffer>} - 一个异步生成器，产出渲染后的图片 Buffer。
+   * @param {RenderOptions} [options] - （可选）本次渲染的可选参数。
+   * @returns {AsyncGenerator<Buffer | string>} - 一个异步生成器，产出渲染后的图片 Buffer 或文本。
    */
-  public async *renderLineChart(data: LineChartData): AsyncGenerator<Buffer> {
+  public async *renderLineChart(data: LineChartData, options: RenderOptions = {}): AsyncGenerator<Buffer | string> {
+    if (this.useText(options, true)) {
+      yield this.text.renderLineChart(data);
+      return;
+    }
+    const theme = await this.resolveSvgTheme(resolveTheme(this.config, options.guildId));
     const { title, time, series, labels } = data;
-    const seriesColors = series.map(() => {
-      const hue = Math.floor(Math.random() * 360);
-      const saturation = Math.floor(Math.random() * 30 + 70);
-      const lightness = Math.floor(Math.random() * 20 + 50);
-      return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-    });
+    const seriesStyles = assignSeriesStyles(series);
 
     const maxVal = Math.max(1, ...series.flatMap(s => s.data));
     const yTickCount = 5;
@@ -277,9 +419,8 @@ export class Renderer {
     });
 
     series.forEach((s, seriesIndex) => {
-        const color = seriesColors[seriesIndex % seriesColors.length];
-        const points = s.data.map((value, index) => `${getX(index)},${getY(value)}`).join(' ');
-        svgElements += `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2"/>`;
+        const points = s.data.map((value, index): [number, number] => [getX(index), getY(value)]);
+        svgElements += renderSeries(points, seriesStyles[seriesIndex]);
     });
 
     const chartAreaHeight = 280;
@@ -298,8 +439,7 @@ export class Renderer {
         const colIndex = seriesIndex % 3;
         const legendX = 40 + (colIndex * columnWidth);
         const legendY = LEGEND_START_Y + (rowIndex * legendRowHeight);
-        const color = seriesColors[seriesIndex % seriesColors.length];
-        svgElements += `<rect x="${legendX}" y="${legendY - 8}" width="12" height="8" fill="${color}" rx="2"/>`;
+        svgElements += renderLegendSample(seriesStyles[seriesIndex], legendX, legendY);
         svgElements += `<text x="${legendX + 18}" y="${legendY}" font-size="12" fill="var(--text-color)">${s.name}</text>`;
       });
     }
@@ -322,9 +462,210 @@ export class Renderer {
       </div>`;
 
     const chartStyles = ` .chart-wrapper { padding: 10px; box-sizing: border-box; } `;
-    const fullHtml = this.generateFullHtml(cardHtml, chartStyles);
+    const imageBuffer = this.svg
+      ? this.svgToImage(() => this.svg.renderLineChart(data, seriesStyles, theme))
+      : await this.htmlToImage(this.generateFullHtml(cardHtml, chartStyles, theme));
+    if (imageBuffer) {
+      yield imageBuffer;
+    } else if (this.config.textFallback) {
+      yield this.text.renderLineChart(data);
+    }
+  }
+
+  /**
+   * @public
+   * @method renderHeatmap
+   * @description 将二维矩阵数据（如星期 × 小时的活跃度）渲染成热力图，单元格颜色深浅与数值大小成正比。
+   * @param {HeatmapData} data - 包含标题、时间、行列标签和数值矩阵的对象。
+   * @param {RenderOptions} [options] - （可选）本次渲染的可选参数。
+   * @returns {AsyncGenerator<Buffer | string>} - 一个异步生成器，产出渲染后的图片 Buffer 或文本。
+   */
+  public async *renderHeatmap(data: HeatmapData, options: RenderOptions = {}): AsyncGenerator<Buffer | string> {
+    if (this.useText(options, true)) {
+      yield this.text.renderHeatmap(data);
+      return;
+    }
+    const theme = await this.resolveSvgTheme(resolveTheme(this.config, options.guildId));
+    const { title, time, rowLabels, colLabels, matrix } = data;
+    const maxVal = Math.max(1, ...matrix.flat());
+    const total = matrix.flat().reduce((a, b) => a + b, 0);
+
+    const renderRow = (row: number[], rowIndex: number) => {
+      const cells = row.map(value => {
+        const opacity = value > 0 ? (0.15 + 0.85 * value / maxVal).toFixed(3) : 0;
+        return `<td><div class="heat-cell" style="opacity: ${opacity};"></div></td>`;
+      }).join('');
+      return `<tr><th class="row-label">${rowLabels[rowIndex]}</th>${cells}</tr>`;
+    };
+
+    const cardHtml = `
+      <div class="container" style="width: 600px;">
+        <div class="header">
+          <div class="stat-chip">总计: <span>${total.toLocaleString()}</span></div>
+          <h1 class="title-text">${title}</h1>
+          <div class="time-label">${time.toLocaleString('zh-CN', { hour12: false })}</div>
+        </div>
+        <div class="heatmap-wrapper">
+          <table class="heatmap-table">
+            <thead>
+              <tr><th></th>${colLabels.map(label => `<th class="col-label">${label}</th>`).join('')}</tr>
+            </thead>
+            <tbody>
+              ${matrix.map(renderRow).join('')}
+            </tbody>
+          </table>
+          <div class="heatmap-legend">
+            <span>少</span><div class="legend-bar"></div><span>多 (${maxVal.toLocaleString()})</span>
+          </div>
+        </div>
+      </div>`;
+
+    const heatmapStyles = `
+      .heatmap-wrapper { padding: 12px 16px; box-sizing: border-box; }
+      .heatmap-table { border-collapse: separate; border-spacing: 2px; width: 100%; table-layout: fixed; }
+      .heatmap-table th { font-size: 10px; font-weight: 500; color: var(--sub-text-color); }
+      .heatmap-table .row-label { width: 36px; text-align: right; padding-right: 4px; white-space: nowrap; }
+      .heatmap-table td { padding: 0; background: var(--chip-bg); border-radius: 3px; }
+      .heat-cell { height: 20px; border-radius: 3px; background: var(--accent-color); }
+      .heatmap-legend { display: flex; justify-content: flex-end; align-items: center; gap: 6px; margin-top: 8px; font-size: 11px; color: var(--sub-text-color); }
+      .legend-bar { width: 96px; height: 8px; border-radius: 4px; background: linear-gradient(to right, var(--chip-bg), var(--accent-color)); }
+    `;
+    const imageBuffer = this.svg
+      ? this.svgToImage(() => this.svg.renderHeatmap(data, theme))
+      : await this.htmlToImage(this.generateFullHtml(cardHtml, heatmapStyles, theme));
+    if (imageBuffer) {
+      yield imageBuffer;
+    } else if (this.config.textFallback) {
+      yield this.text.renderHeatmap(data);
+    }
+  }
+
+  /**
+   * @private
+   * @method layoutGraph
+   * @description 使用力导向算法（Fruchterman-Reingold）计算网络图节点坐标。初始位置按圆周均匀分布，结果是确定的。
+   * @param {number} nodeCount - 节点数量。
+   * @param {GraphData['edges']} edges - 边数组。
+   * @param {number} size - 画布边长。
+   * @returns {[number, number][]} - 每个节点的坐标。
+   */
+  private layoutGraph(nodeCount: number, edges: GraphData['edges'], size: number): [number, number][] {
+    const center = size / 2;
+    const positions: [number, number][] = Array.from({ length: nodeCount }, (_, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(1, nodeCount);
+      return [center + center * 0.6 * Math.cos(angle), center + center * 0.6 * Math.sin(angle)];
+    });
+    if (nodeCount < 3) return positions;
+
+    const k = Math.sqrt((size * size) / nodeCount) * 0.6;
+    const maxWeight = Math.max(1, ...edges.map(e => e.weight));
+    let temperature = size / 8;
+    for (let iteration = 0; iteration < 300; iteration++) {
+      const displacement = positions.map(() => [0, 0]);
+      for (let i = 0; i < nodeCount; i++) {
+        for (let j = i + 1; j < nodeCount; j++) {
+          const dx = positions[i][0] - positions[j][0];
+          const dy = positions[i][1] - positions[j][1];
+          const distance = Math.max(0.01, Math.hypot(dx, dy));
+          const force = (k * k) / distance;
+          displacement[i][0] += (dx / distance) * force; displacement[i][1] += (dy / distance) * force;
+          displacement[j][0] -= (dx / distance) * force; displacement[j][1] -= (dy / distance) * force;
+        }
+      }
+      for (const { source, target, weight } of edges) {
+        const dx = positions[source][0] - positions[target][0];
+        const dy = positions[source][1] - positions[target][1];
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        const force = ((distance * distance) / k) * (0.5 + 0.5 * weight / maxWeight);
+        displacement[source][0] -= (dx / distance) * force; displacement[source][1] -= (dy / distance) * force;
+        displacement[target][0] += (dx / distance) * force; displacement[target][1] += (dy / distance) * force;
+      }
+      for (let i = 0; i < nodeCount; i++) {
+        // 向中心的弱引力，避免孤立节点漂出画布
+        displacement[i][0] -= (positions[i][0] - center) * 0.05;
+        displacement[i][1] -= (positions[i][1] - center) * 0.05;
+        const length = Math.max(0.01, Math.hypot(displacement[i][0], displacement[i][1]));
+        positions[i][0] += (displacement[i][0] / length) * Math.min(length, temperature);
+        positions[i][1] += (displacement[i][1] / length) * Math.min(length, temperature);
+      }
+      temperature *= 0.98;
+    }
+
+    // 将结果缩放至画布内，保留边距
+    const margin = 60;
+    const xs = positions.map(p => p[0]), ys = positions.map(p => p[1]);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const scale = Math.min((size - 2 * margin) / Math.max(1, maxX - minX), (size - 2 * margin) / Math.max(1, maxY - minY));
+    return positions.map(([x, y]) => [margin + (x - minX) * scale, margin + (y - minY) * scale]);
+  }
+
+  /**
+   * @public
+   * @method renderGraph
+   * @description 将互动关系渲染成网络图，节点大小与发言量成正比，边的粗细与互动次数成正比，箭头指向被回复或提及的一方。
+   * @param {GraphData} data - 包含标题、时间、节点和边的对象。
+   * @param {RenderOptions} [options] - （可选）本次渲染的可选参数。
+   * @returns {AsyncGenerator<Buffer | string>} - 一个异步生成器，产出渲染后的图片 Buffer 或文本。
+   */
+  public async *renderGraph(data: GraphData, options: RenderOptions = {}): AsyncGenerator<Buffer | string> {
+    if (this.useText(options)) {
+      yield this.text.renderGraph(data);
+      return;
+    }
+    const theme = resolveTheme(this.config, options.guildId);
+    const { title, time, nodes, edges } = data;
+    const size = 600;
+    const positions = this.layoutGraph(nodes.length, edges, size);
+    const maxValue = Math.max(1, ...nodes.map(n => n.value));
+    const maxWeight = Math.max(1, ...edges.map(e => e.weight));
+    const radii = nodes.map(n => 6 + 18 * Math.sqrt(n.value / maxValue));
+
+    let svgElements = `<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="var(--sub-text-color)"/></marker></defs>`;
+
+    for (const { source, target, weight } of edges) {
+      const [x1, y1] = positions[source];
+      const [x2, y2] = positions[target];
+      const distance = Math.max(0.01, Math.hypot(x2 - x1, y2 - y1));
+      const ux = (x2 - x1) / distance, uy = (y2 - y1) / distance;
+      // 双向边略微弯曲，避免两条边重叠
+      const bend = edges.some(e => e.source === target && e.target === source) ? 20 : 0;
+      const startX = x1 + ux * radii[source], startY = y1 + uy * radii[source];
+      const endX = x2 - ux * (radii[target] + 2), endY = y2 - uy * (radii[target] + 2);
+      const controlX = (startX + endX) / 2 - uy * bend, controlY = (startY + endY) / 2 + ux * bend;
+      const strokeWidth = (1 + 5 * weight / maxWeight).toFixed(2);
+      const opacity = (0.25 + 0.6 * weight / maxWeight).toFixed(2);
+      svgElements += `<path d="M ${startX} ${startY} Q ${controlX} ${controlY} ${endX} ${endY}" fill="none" stroke="var(--sub-text-color)" stroke-width="${strokeWidth}" stroke-opacity="${opacity}" marker-end="url(#arrow)"/>`;
+    }
+
+    nodes.forEach((node, i) => {
+      const [x, y] = positions[i];
+      svgElements += `<circle cx="${x}" cy="${y}" r="${radii[i]}" fill="var(--accent-color)" fill-opacity="0.85" stroke="var(--card-bg)" stroke-width="2"/>`;
+      svgElements += `<text x="${x}" y="${y + radii[i] + 14}" font-size="12" fill="var(--text-color)" text-anchor="middle">${node.name}</text>`;
+    });
+
+    const totalWeight = edges.reduce((sum, e) => sum + e.weight, 0);
+    const cardHtml = `
+      <div class="container" style="width: 600px;">
+        <div class="header">
+          <div class="stat-chip">互动: <span>${totalWeight.toLocaleString()}</span></div>
+          <h1 class="title-text">${title}</h1>
+          <div class="time-label">${time.toLocaleString('zh-CN', { hour12: false })}</div>
+        </div>
+        <div class="chart-wrapper">
+          <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
+            ${svgElements}
+          </svg>
+        </div>
+      </div>`;
+
+    const graphStyles = ` .chart-wrapper { padding: 0; box-sizing: border-box; } `;
+    const fullHtml = this.generateFullHtml(cardHtml, graphStyles, theme);
     const imageBuffer = await this.htmlToImage(fullHtml);
-    if (imageBuffer) yield imageBuffer;
+    if (imageBuffer) {
+      yield imageBuffer;
+    } else if (this.config.textFallback) {
+      yield this.text.renderGraph(data);
+    }
   }
 
   /**
@@ -333,11 +674,17 @@ export class Renderer {
    * @description 将词频数据渲染成一张词云图片，使用 Puppeteer 和 wordcloud2.js。
    * @param {WordCloudData} data - 包含标题、时间和词汇列表的对象。
    * @param {Config} config - 插件的配置对象。
-   * @returns {AsyncGenerator<Buffer>} - 一个异步生成器，产出渲染后的图片 Buffer。
+   * @param {RenderOptions} [options] - （可选）本次渲染的可选参数。
+   * @returns {AsyncGenerator<Buffer | string>} - 一个异步生成器，产出渲染后的图片 Buffer 或文本。
    */
-  public async *renderWordCloud(data: WordCloudData, config: Config): AsyncGenerator<Buffer> {
+  public async *renderWordCloud(data: WordCloudData, config: Config, options: RenderOptions = {}): AsyncGenerator<Buffer | string> {
     const { title, time, words } = data;
     if (!words?.length) return;
+    if (this.useText(options)) {
+      yield this.text.renderWordCloud(data);
+      return;
+    }
+    const theme = resolveTheme(this.config, options.guildId);
 
     const weights = words.map(w => w[1]);
     const maxWeight = Math.max(...weights, 1);
@@ -419,7 +766,7 @@ export class Renderer {
       <html>
         <head>
           <meta charset="UTF-8">
-          <style>${this.COMMON_STYLE}</style>
+          <style>${this.COMMON_STYLE}${themeToCss(theme)}</style>
         </head>
         <body>
           ${cardHtml}
@@ -427,6 +774,10 @@ export class Renderer {
       </html>`;
 
     const imageBuffer = await this.htmlToImage(fullHtml);
-    if (imageBuffer) yield imageBuffer;
+    if (imageBuffer) {
+      yield imageBuffer;
+    } else if (this.config.textFallback) {
+      yield this.text.renderWordCloud(data);
+    }
   }
 }
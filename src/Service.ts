@@ -0,0 +1,258 @@
+import { Context, Time, $ } from 'koishi';
+import { Config } from './index';
+import { Stat } from './Stat';
+import { Analyse } from './Analyse';
+import { Renderer } from './Renderer';
+import { Metrics } from './Metrics';
+import { matchAccounts, matchPlatform, resolveLinkedAccounts } from './Identity';
+
+declare module 'koishi' {
+  interface Context {
+    chatAnalyse: ChatAnalyse;
+  }
+}
+
+/**
+ * @interface QueryScope
+ * @description 定义服务查询的统计范围，均未指定时统计全部数据；指定用户时包含其所有关联账号。
+ */
+export interface QueryScope {
+  platform?: string;
+  guildId?: string;
+  userId?: string;
+}
+
+/**
+ * @interface RankingItem
+ * @description 定义发言排行中的单项数据。
+ */
+export interface RankingItem {
+  uid: number;
+  platform: string;
+  userId: string;
+  userName: string;
+  count: number;
+}
+
+/**
+ * @interface CommandStatItem
+ * @description 定义命令统计中的单项数据。
+ */
+export interface CommandStatItem {
+  command: string;
+  count: number;
+  lastUsed: Date;
+}
+
+/**
+ * @interface MessageStatItem
+ * @description 定义发言统计中的单项数据。
+ */
+export interface MessageStatItem extends RankingItem {
+  lastUsed: Date;
+}
+
+/**
+ * @interface MentionItem
+ * @description 定义提及记录中的单项数据。
+ */
+export interface MentionItem {
+  platform: string;
+  channelId: string;
+  userId: string;
+  userName: string;
+  content: string;
+  timestamp: Date;
+}
+
+/**
+ * @class ChatAnalyse
+ * @description 以 `ctx.chatAnalyse` 服务的形式向其他插件提供统计数据查询与图片渲染能力。
+ */
+export class ChatAnalyse {
+  public readonly renderer: Renderer;
+
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   * @param stat - 统计模块实例。
+   * @param metrics - 运行指标记录器。
+   * @param analyse - 文本分析模块实例，未启用时为空。
+   */
+  constructor(private ctx: Context, private config: Config, private stat: Stat, private metrics: Metrics, private analyse?: Analyse) {
+    this.renderer = stat.renderer;
+  }
+
+  /**
+   * @public @method resolveUids
+   * @description 将统计范围解析为内部用户 ID 列表。
+   * @param scope - 统计范围。
+   * @returns 内部用户 ID 数组，统计全部数据时返回 undefined。
+   */
+  public async resolveUids(scope: QueryScope = {}): Promise<number[] | undefined> {
+    const query: any = {};
+    if (scope.guildId) query.channelId = scope.guildId;
+    if (scope.userId && !scope.platform) {
+      query.userId = scope.userId;
+    } else if (scope.userId) {
+      const accounts = await resolveLinkedAccounts(this.ctx, scope.platform, scope.userId);
+      query.$or = matchAccounts(accounts);
+    } else if (scope.platform) {
+      query.platform = matchPlatform(scope.platform);
+    } else if (!scope.guildId) {
+      return undefined;
+    }
+    const users = await this.ctx.database.get('analyse_user', query, ['uid']);
+    return users.map(u => u.uid);
+  }
+
+  /**
+   * @public @method getCommandStats
+   * @description 获取指定范围内的命令使用统计，默认将子命令合并到主命令。
+   * @param scope - 统计范围。
+   * @param options - 查询选项，`separate` 为 true 时分离子命令。
+   * @returns 按使用次数降序排列的命令统计数组。
+   */
+  public async getCommandStats(scope: QueryScope, options: { separate?: boolean } = {}): Promise<CommandStatItem[]> {
+    if (!this.config.enableCmdStat) return [];
+    const uids = await this.resolveUids(scope);
+    if (uids?.length === 0) return [];
+    const query: any = uids ? { uid: { $in: uids } } : {};
+    const stats = await this.ctx.database.select('analyse_cmd').where(query).groupBy('command', { count: row => $.sum(row.count), lastUsed: row => $.max(row.timestamp) }).execute();
+    const merged = new Map<string, CommandStatItem>();
+    for (const stat of stats) {
+      const command = options.separate ? stat.command : stat.command.split('.')[0];
+      const existing = merged.get(command) ?? { command, count: 0, lastUsed: new Date(0) };
+      existing.count += stat.count;
+      if (stat.lastUsed > existing.lastUsed) existing.lastUsed = stat.lastUsed;
+      merged.set(command, existing);
+    }
+    return Array.from(merged.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * @public @method getMessageStats
+   * @description 获取指定范围内各用户的累计发言统计。
+   * @param scope - 统计范围。
+   * @param options - 查询选项，`type` 用于限定消息类型。
+   * @returns 按发言条数降序排列的发言统计数组。
+   */
+  public async getMessageStats(scope: QueryScope, options: { type?: string } = {}): Promise<MessageStatItem[]> {
+    if (!this.config.enableMsgStat) return [];
+    const uids = await this.resolveUids(scope);
+    if (uids?.length === 0) return [];
+    const query: any = uids ? { uid: { $in: uids } } : {};
+    if (options.type) query.type = options.type;
+    const stats = await this.ctx.database.select('analyse_msg').where(query).groupBy('uid', { count: row => $.sum(row.count), lastUsed: row => $.max(row.timestamp) }).execute();
+    if (stats.length === 0) return [];
+    const users = await this.ctx.database.get('analyse_user', { uid: { $in: stats.map(s => s.uid) } });
+    const userMap = new Map(users.map(u => [u.uid, u]));
+    return stats.sort((a, b) => b.count - a.count).map(({ uid, count, lastUsed }) => {
+      const user = userMap.get(uid);
+      return { uid, platform: user?.platform ?? '', userId: user?.userId ?? '', userName: user?.userName || user?.userId || `UID ${uid}`, count, lastUsed };
+    });
+  }
+
+  /**
+   * @public @method getRanking
+   * @description 获取指定范围内的用户发言排行。
+   * @param scope - 统计范围。
+   * @param options - 查询选项，`type` 用于限定消息类型。
+   * @returns 按发言条数降序排列的排行数组。
+   */
+  public async getRanking(scope: QueryScope, options: { since: Date; until?: Date; type?: string; limit?: number }): Promise<RankingItem[]> {
+    const uids = await this.resolveUids(scope);
+    if (uids?.length === 0) return [];
+    const query: any = { timestamp: { $gte: options.since, $lt: options.until ?? new Date() } };
+    if (uids) query.uid = { $in: uids };
+    if (options.type) query.type = options.type;
+
+    const stats = await this.stat.sumRankBy(query, 'uid');
+    const ranked = options.limit > 0 ? stats.slice(0, options.limit) : stats;
+    if (ranked.length === 0) return [];
+    const users = await this.ctx.database.get('analyse_user', { uid: { $in: ranked.map(s => s.uid) } });
+    const userMap = new Map(users.map(u => [u.uid, u]));
+    return ranked.map(({ uid, count }) => {
+      const user = userMap.get(uid);
+      return { uid, platform: user?.platform ?? '', userId: user?.userId ?? '', userName: user?.userName || user?.userId || `UID ${uid}`, count };
+    });
+  }
+
+  /**
+   * @public @method getActivity
+   * @description 获取指定范围内的活跃度向量，按小时或按天分桶统计发言条数。
+   * @param scope - 统计范围。
+   * @param options - 查询选项，`unit` 为分桶粒度，默认为小时。
+   * @returns 自 `since` 起按时间顺序排列的发言条数数组。
+   */
+  public async getActivity(scope: QueryScope, options: { since: Date; until?: Date; unit?: 'hour' | 'day' }): Promise<number[]> {
+    const until = options.until ?? new Date();
+    const step = options.unit === 'day' ? Time.day : Time.hour;
+    const length = Math.max(0, Math.ceil((until.getTime() - options.since.getTime()) / step));
+    const vector = new Array<number>(length).fill(0);
+
+    const uids = await this.resolveUids(scope);
+    if (uids?.length === 0 || length === 0) return vector;
+    const query: any = { timestamp: { $gte: options.since, $lt: until } };
+    if (uids) query.uid = { $in: uids };
+
+    const records = await this.stat.getRankRecords(query);
+    for (const record of records) {
+      const index = Math.floor((record.timestamp.getTime() - options.since.getTime()) / step);
+      if (index >= 0 && index < length) vector[index] += record.count;
+    }
+    return vector;
+  }
+
+  /**
+   * @public @method getWordFrequencies
+   * @description 获取指定范围内的词频统计，需启用词云功能并记录原始内容。
+   * @param scope - 统计范围。
+   * @param options - 查询选项。
+   * @returns 按词频降序排列的词语与词频数组。
+   */
+  public async getWordFrequencies(scope: QueryScope, options: { since: Date; until?: Date; limit?: number }): Promise<[string, number][]> {
+    if (!this.analyse || !this.config.enableOriRecord) return [];
+    const uids = await this.resolveUids(scope);
+    if (uids?.length === 0) return [];
+    const query: any = { recalled: false, timestamp: { $gte: options.since, $lt: options.until ?? new Date() } };
+    if (uids) query.uid = { $in: uids };
+
+    const records = await this.ctx.database.get('analyse_cache', query, ['content']);
+    const words = this.analyse.countWords(records.map(r => r.content));
+    return options.limit > 0 ? words.slice(0, options.limit) : words;
+  }
+
+  /**
+   * @public @method getMentions
+   * @description 获取提及指定用户的记录，需启用 @ 记录功能。
+   * @param userId - 被提及用户的 ID。
+   * @param options - 查询选项，`platform` 用于限定平台。
+   * @returns 按时间降序排列的提及记录数组。
+   */
+  public async getMentions(userId: string, options: { platform?: string; limit?: number } = {}): Promise<MentionItem[]> {
+    if (!this.config.enableWhoAt) return [];
+    // 限定平台时需先过滤再截取，因此不在查询中限制条数
+    const limit = options.limit > 0 && !options.platform ? options.limit : undefined;
+    const records = await this.ctx.database.get('analyse_at', { target: userId }, { sort: { timestamp: 'desc' }, limit });
+    if (records.length === 0) return [];
+    const users = await this.ctx.database.get('analyse_user', { uid: { $in: [...new Set(records.map(r => r.uid))] } });
+    const userMap = new Map(users.map(u => [u.uid, u]));
+    const mentions = records
+      .filter(r => !options.platform || userMap.get(r.uid)?.platform === options.platform)
+      .map(r => {
+        const user = userMap.get(r.uid);
+        return { platform: user?.platform ?? '', channelId: user?.channelId ?? '', userId: user?.userId ?? '', userName: user?.userName || user?.userId || '', content: r.content, timestamp: r.timestamp };
+      });
+    return options.limit > 0 ? mentions.slice(0, options.limit) : mentions;
+  }
+
+  /**
+   * @public @method getMetrics
+   * @description 获取插件自身的运行指标。
+   * @returns Prometheus 文本格式的指标内容。
+   */
+  public getMetrics(): string {
+    return this.metrics.toText();
+  }
+}
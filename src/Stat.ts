@@ -1,6 +1,23 @@
-import { Context, Command, $, h, Time } from 'koishi';
-import { Renderer } from './Renderer';
+import { Context, Command, Tables, $, h, Time } from 'koishi';
+import { Renderer, RenderOptions } from './Renderer';
 import { Config, generateTitle } from './index';
+import { matchAccounts, matchPlatform, resolveLinkedAccounts } from './Identity';
+import { Metrics } from './Metrics';
+import { Profile, ProfileUser } from './Profile';
+
+/**
+ * @function getHourlyCutoff
+ * @description 计算按小时发言记录的保留起点，早于该时间的记录会被汇总为按天记录，不再包含小时信息。
+ * @param config - 插件的配置对象。
+ * @returns 保留起点，未启用汇总时返回 undefined。
+ */
+export function getHourlyCutoff(config: Config): Date | undefined {
+  if (!(config.rankHourlyDays > 0)) return undefined;
+  const cutoff = new Date();
+  cutoff.setHours(0, 0, 0, 0);
+  cutoff.setDate(cutoff.getDate() - config.rankHourlyDays);
+  return cutoff;
+}
 
 /**
  * @class Stat
@@ -8,25 +25,47 @@ import { Config, generateTitle } from './index';
  */
 export class Stat {
   public renderer: Renderer;
+  private profile: Profile;
 
   /**
    * @param ctx - Koishi 的插件上下文。
    * @param config - 插件的配置对象。
+   * @param metrics - 运行指标记录器。
    */
-  constructor(private ctx: Context, private config: Config) {
-    this.renderer = new Renderer(ctx);
+  constructor(private ctx: Context, private config: Config, metrics?: Metrics) {
+    this.renderer = new Renderer(ctx, config, metrics);
+    this.profile = new Profile(ctx, config);
     if (this.config.enableRankStat && this.config.rankRetentionDays > 0) {
       this.ctx.cron('0 0 * * *', async () => {
         const cutoffDate = new Date(Date.now() - this.config.rankRetentionDays * Time.day);
         await this.ctx.database.remove('analyse_rank', { timestamp: { $lt: cutoffDate } })
           .catch(e => this.ctx.logger.error('清理发言排行记录失败:', e));
+        await this.ctx.database.remove('analyse_rank_daily', { timestamp: { $lt: cutoffDate } })
+          .catch(e => this.ctx.logger.error('清理发言排行记录失败:', e));
+      });
+    }
+    if ((this.config.enableRankStat || this.config.enableActivity) && this.config.rankHourlyDays > 0) {
+      this.ctx.cron('30 0 * * *', () => this.rollupRank());
+    }
+    if (this.config.enableInteraction && this.config.rankRetentionDays > 0) {
+      this.ctx.cron('0 0 * * *', async () => {
+        const cutoffDate = new Date(Date.now() - this.config.rankRetentionDays * Time.day);
+        await this.ctx.database.remove('analyse_edge', { timestamp: { $lt: cutoffDate } })
+          .catch(e => this.ctx.logger.error('清理互动关系记录失败:', e));
+      });
+    }
+    if (this.config.enableRecallStat && this.config.rankRetentionDays > 0) {
+      this.ctx.cron('0 0 * * *', async () => {
+        const cutoffDate = new Date(Date.now() - this.config.rankRetentionDays * Time.day);
+        await this.ctx.database.remove('analyse_recall', { timestamp: { $lt: cutoffDate } })
+          .catch(e => this.ctx.logger.error('清理撤回排行记录失败:', e));
       });
     }
   }
 
   /**
    * @private @method parseScope
-   * @description 根据选项解析查询范围，返回 uids 和范围描述
+   * @description 根据选项解析查询范围，返回 uids 和范围描述，指定用户时包含其所有关联账号
    */
   private async parseScope(session: any, options: any): Promise<{ uids?: number[]; error?: string; scopeDesc: { guildId?: string; userId?: string } }> {
     const scopeDesc = { guildId: undefined, userId: undefined };
@@ -37,24 +76,111 @@ export class Stat {
     if (!scopeDesc.guildId && !scopeDesc.userId) scopeDesc.guildId = session.guildId || session.channelId;
     if (!scopeDesc.guildId && !scopeDesc.userId) return { error: '请指定查询范围', scopeDesc };
     if (scopeDesc.guildId) query.channelId = scopeDesc.guildId;
-    if (scopeDesc.userId) query.userId = scopeDesc.userId;
+    if (scopeDesc.userId) {
+      const accounts = await resolveLinkedAccounts(this.ctx, session.platform, scopeDesc.userId);
+      query.$or = matchAccounts(accounts);
+    } else {
+      query.platform = matchPlatform(session.platform);
+    }
     const users = await this.ctx.database.get('analyse_user', query, ['uid']);
     if (users.length === 0) return { error: '暂无统计数据', scopeDesc };
     return { uids: users.map(u => u.uid), scopeDesc };
   }
 
 
+  /**
+   * @private @method rollupRank
+   * @description 将超过保留期的按小时发言记录逐日汇总到按天记录表中，并删除已汇总的按小时记录。
+   */
+  private async rollupRank() {
+    const cutoff = getHourlyCutoff(this.config);
+    try {
+      const [oldest] = await this.ctx.database.get('analyse_rank', { timestamp: { $lt: cutoff } }, { sort: { timestamp: 'asc' }, limit: 1 });
+      if (!oldest) return;
+      const dayStart = new Date(oldest.timestamp);
+      dayStart.setHours(0, 0, 0, 0);
+      for (; dayStart < cutoff; dayStart.setDate(dayStart.getDate() + 1)) {
+        const dayEnd = new Date(dayStart);
+        dayEnd.setDate(dayEnd.getDate() + 1);
+        const dayQuery = { timestamp: { $gte: dayStart, $lt: dayEnd } };
+        const stats = await this.ctx.database.select('analyse_rank').where(dayQuery).groupBy(['uid', 'type'], { count: row => $.sum(row.count) }).execute();
+        if (stats.length === 0) continue;
+        const timestamp = new Date(dayStart);
+        const BATCH_SIZE = 1000;
+        for (let i = 0; i < stats.length; i += BATCH_SIZE) {
+          const batch = stats.slice(i, i + BATCH_SIZE);
+          await this.ctx.database.upsert('analyse_rank_daily', (row) => batch.map(item => ({ uid: item.uid, type: item.type, timestamp, count: $.add($.ifNull(row.count, 0), item.count) })));
+        }
+        await this.ctx.database.remove('analyse_rank', dayQuery);
+      }
+    } catch (error) {
+      this.ctx.logger.error('汇总发言排行记录失败:', error);
+    }
+  }
+
+  /**
+   * @public @method getRankRecords
+   * @description 获取满足条件的发言记录，同时包含按小时记录与已汇总的按天记录。
+   * @param query - 查询条件。
+   * @returns 发言记录数组，按天记录的时间戳为当天零点。
+   */
+  public async getRankRecords(query: any): Promise<Tables['analyse_rank'][]> {
+    const [hourly, daily] = await Promise.all([
+      this.ctx.database.get('analyse_rank', query),
+      this.ctx.database.get('analyse_rank_daily', query),
+    ]);
+    return hourly.concat(daily);
+  }
+
+  /**
+   * @public @method sumRankBy
+   * @description 按指定字段汇总发言条数，同时包含按小时记录与已汇总的按天记录，结果按条数降序排列。
+   * @param query - 查询条件。
+   * @param key - 分组字段。
+   * @returns 包含分组字段和条数的数组。
+   */
+  public async sumRankBy<K extends 'uid' | 'type'>(query: any, key: K): Promise<(Pick<Tables['analyse_rank'], K> & { count: number })[]> {
+    const [hourly, daily] = await Promise.all(['analyse_rank', 'analyse_rank_daily'].map((table: 'analyse_rank' | 'analyse_rank_daily') =>
+      this.ctx.database.select(table).where(query).groupBy(key, { count: row => $.sum(row.count) }).execute()));
+    const merged = new Map<Tables['analyse_rank'][K], number>();
+    for (const stat of [...hourly, ...daily] as any[]) merged.set(stat[key], (merged.get(stat[key]) || 0) + stat.count);
+    return Array.from(merged.entries(), ([value, count]) => ({ [key]: value, count }) as Pick<Tables['analyse_rank'], K> & { count: number })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * @private @method resolveUsers
+   * @description 批量查询用户的显示名称，并在输出图片时按配置获取用户头像。
+   * @param uids - 按展示顺序排列的用户 uid 数组。
+   * @param options - 本次渲染的可选参数。
+   * @returns 与 uids 逐项对应的显示名称和头像。
+   */
+  private async resolveUsers(uids: number[], options: RenderOptions): Promise<{ names: string[]; avatars?: (string | null)[] }> {
+    const users = new Map<number, ProfileUser>();
+    const BATCH_SIZE = 4096;
+    for (let i = 0; i < uids.length; i += BATCH_SIZE) {
+      const batchUids = uids.slice(i, i + BATCH_SIZE);
+      const records = await this.ctx.database.get('analyse_user', { uid: { $in: batchUids } }, ['uid', 'platform', 'channelId', 'userId', 'userName']);
+      for (const record of records) users.set(record.uid, record);
+    }
+    const withAvatar = !this.renderer.useText(options, true);
+    const profiles = await this.profile.resolve(uids.filter(uid => users.has(uid)).map(uid => users.get(uid)), withAvatar);
+    const names = uids.map(uid => users.has(uid) ? this.profile.getDisplayName(users.get(uid), profiles.get(uid)) : `UID ${uid}`);
+    const avatars = withAvatar && this.config.enableAvatar ? uids.map(uid => profiles.get(uid)?.avatar ?? null) : undefined;
+    return { names, avatars };
+  }
+
   /**
    * @public @method registerCommands
    * @description 根据配置，动态地将子命令注册到主命令下。
    * @param cmd - 主命令实例。
    */
   public registerCommands(cmd: Command) {
-    const handleAction = async (session: any, promise: Promise<string | AsyncGenerator<Buffer>>) => {
+    const handleAction = async (session: any, promise: Promise<string | AsyncGenerator<Buffer | string>>) => {
       try {
         const result = await promise;
         if (typeof result === 'string') return result;
-        for await (const buffer of result) await session.send(h.image(buffer, 'image/png'));
+        for await (const output of result) await session.send(typeof output === 'string' ? output : h.image(output, 'image/png'));
       } catch (error) {
         this.ctx.logger.error('图片渲染失败:', error);
         return '图片渲染失败';
@@ -70,6 +196,7 @@ export class Stat {
         .option('separate', '-p 分离子命令')
         .option('sortByTime', '-s 以时间排序')
         .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
         .action(({ session, options }) => handleAction(session, (async () => {
           const scope = await this.parseScope(session, options);
           if (scope.error) return scope.error;
@@ -99,7 +226,7 @@ export class Stat {
           const total = processedStats.reduce((sum, r) => sum + r.count, 0);
           const list = limitedStats.map(item => [item.command, item.count, item.lastUsed]);
           const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '命令' });
-          return this.renderer.renderList({ title, time: new Date(), total, list }, ['命令', '次数', '最后使用']);
+          return this.renderer.renderList({ title, time: new Date(), total, list }, ['命令', '次数', '最后使用'], { text: options.text, guildId: session.guildId });
         })()));
     }
 
@@ -112,6 +239,7 @@ export class Stat {
         .option('limit', '-l <count:number> 限制数量')
         .option('sortByTime', '-s 以时间排序')
         .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
         .action(({ session, options }) => handleAction(session, (async () => {
           const scope = await this.parseScope(session, options);
           if (scope.error) return scope.error;
@@ -132,7 +260,7 @@ export class Stat {
             const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
             const total = stats.reduce((sum, r) => sum + r.count, 0);
             const list = limitedStats.map(item => [item.type, item.count, item.lastUsed]);
-            return this.renderer.renderList({ title, time: new Date(), total, list }, ['类型', '条数', '最后发言']);
+            return this.renderer.renderList({ title, time: new Date(), total, list }, ['类型', '条数', '最后发言'], { text: options.text, guildId: session.guildId });
           }
           if (options.user) {
             const userRecords = await this.ctx.database.get('analyse_user', { uid: { $in: scope.uids } });
@@ -143,25 +271,17 @@ export class Stat {
             const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
             const total = stats.reduce((sum, r) => sum + r.count, 0);
             const list = limitedStats.map(item => [uidToChannelMap.get(item.uid) || `未知群组`, item.count, item.lastUsed]);
-            return this.renderer.renderList({ title, time: new Date(), total, list }, ['群组', '条数', '最后发言']);
+            return this.renderer.renderList({ title, time: new Date(), total, list }, ['群组', '条数', '最后发言'], { text: options.text, guildId: session.guildId });
           }
           const stats = await this.ctx.database.select('analyse_msg').where(query).groupBy('uid', { count: row => $.sum(row.count), lastUsed: row => $.max(row.timestamp) }).execute();
           if (stats.length === 0) return '暂无统计数据';
           applySort(stats);
           const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
-          const allUids = limitedStats.map(s => s.uid);
-          const userNameMap = new Map<number, string>();
-          const BATCH_SIZE = 4096;
-          for (let i = 0; i < allUids.length; i += BATCH_SIZE) {
-            const batchUids = allUids.slice(i, i + BATCH_SIZE);
-            const users = await this.ctx.database.get('analyse_user', { uid: { $in: batchUids } }, ['uid', 'userName']);
-            for (const user of users) {
-              userNameMap.set(user.uid, user.userName);
-            }
-          }
+          const renderOptions = { text: options.text, guildId: session.guildId };
+          const { names, avatars } = await this.resolveUsers(limitedStats.map(s => s.uid), renderOptions);
           const total = stats.reduce((sum, r) => sum + r.count, 0);
-          const list = limitedStats.map(item => [userNameMap.get(item.uid) || `UID ${item.uid}`, item.count, item.lastUsed]);
-          return this.renderer.renderList({ title, time: new Date(), total, list }, ['用户', '条数', '最后发言']);
+          const list = limitedStats.map((item, i) => [names[i], item.count, item.lastUsed]);
+          return this.renderer.renderList({ title, time: new Date(), total, list, avatars }, ['用户', '条数', '最后发言'], renderOptions);
         })()));
     }
 
@@ -174,7 +294,9 @@ export class Stat {
         .option('duration', '-n <hours:number> 指定时长', { fallback: 24 })
         .option('offset', '-o <hours:number> 指定偏移', { fallback: 0 })
         .option('limit', '-l <count:number> 限制数量')
+        .option('compare', '-c 对比上一周期')
         .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
         .action(({ session, options }) => handleAction(session, (async () => {
           const scope = await this.parseScope(session, options);
           if (scope.error) return scope.error;
@@ -184,63 +306,180 @@ export class Stat {
           if (scope.uids) query.uid = { $in: scope.uids };
           if (options.type) query.type = options.type;
           const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '发言排行', timeRange: options.duration, subtype: options.type });
+          const percent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(2)}%` : '0.00%';
+          // 对比模式下，以等长的上一周期排名计算名次变化与条数增减
+          const compareHeaders = options.compare ? ['排名变化', '增减'] : [];
+          const getCompareCells = async (key: 'type' | 'uid') => {
+            if (!options.compare) return () => [];
+            const prevQuery = { ...query, timestamp: { $gte: new Date(since.getTime() - options.duration * Time.hour), $lt: since } };
+            const prevStats = await this.sumRankBy(prevQuery, key);
+            const prevMap = new Map<string | number, { rank: number; count: number }>(prevStats.map((r, i) => [r[key], { rank: i + 1, count: r.count }]));
+            return (keyValue: string | number, rank: number, count: number): string[] => {
+              const prev = prevMap.get(keyValue);
+              if (!prev) return ['NEW', `+${count}`];
+              const rankDiff = prev.rank - rank;
+              const countDiff = count - prev.count;
+              const rankText = rankDiff > 0 ? `↑${rankDiff}` : rankDiff < 0 ? `↓${-rankDiff}` : '-';
+              return [rankText, countDiff > 0 ? `+${countDiff}` : String(countDiff)];
+            };
+          };
           if (options.user && options.guild) {
-            const stats = await this.ctx.database.select('analyse_rank').where(query).groupBy('type', { count: row => $.sum(row.count) }).orderBy('count', 'desc').execute();
+            const stats = await this.sumRankBy(query, 'type');
             if (stats.length === 0) return '暂无统计数据';
+            const compareCells = await getCompareCells('type');
             const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
             const total = stats.reduce((sum, r) => sum + r.count, 0);
-            const list = limitedStats.map(r => [r.type, r.count, total > 0 ? `${(r.count / total * 100).toFixed(2)}%` : '0.00%']);
-            return this.renderer.renderList({ title, time: new Date(), total, list }, ['类型', '条数', '占比']);
+            const list = limitedStats.map((r, i) => [r.type, r.count, percent(r.count, total), ...compareCells(r.type, i + 1, r.count)]);
+            return this.renderer.renderList({ title, time: new Date(), total, list }, ['类型', '条数', '占比', ...compareHeaders], { text: options.text, guildId: session.guildId });
           }
           if (options.user) {
             const userRecords = await this.ctx.database.get('analyse_user', { uid: { $in: scope.uids } });
             const uidToChannelMap = new Map(userRecords.map(u => [u.uid, u.channelName || u.channelId]));
-            const stats = await this.ctx.database.select('analyse_rank').where(query).groupBy('uid', { count: row => $.sum(row.count) }).orderBy('count', 'desc').execute();
+            const stats = await this.sumRankBy(query, 'uid');
             if (stats.length === 0) return '暂无统计数据';
+            const compareCells = await getCompareCells('uid');
             const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
             const total = stats.reduce((sum, r) => sum + r.count, 0);
-            const list = limitedStats.map(r => [uidToChannelMap.get(r.uid) || '未知群组', r.count, total > 0 ? `${(r.count / total * 100).toFixed(2)}%` : '0.00%']);
-            return this.renderer.renderList({ title, time: new Date(), total, list }, ['群组', '条数', '占比']);
+            const list = limitedStats.map((r, i) => [uidToChannelMap.get(r.uid) || '未知群组', r.count, percent(r.count, total), ...compareCells(r.uid, i + 1, r.count)]);
+            return this.renderer.renderList({ title, time: new Date(), total, list }, ['群组', '条数', '占比', ...compareHeaders], { text: options.text, guildId: session.guildId });
           }
-          const stats = await this.ctx.database.select('analyse_rank').where(query).groupBy('uid', { count: row => $.sum(row.count) }).orderBy('count', 'desc').execute();
+          const stats = await this.sumRankBy(query, 'uid');
           if (stats.length === 0) return '暂无统计数据';
+          const compareCells = await getCompareCells('uid');
           const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
-          const allUids = limitedStats.map(s => s.uid);
-          const userNameMap = new Map<number, string>();
-          const BATCH_SIZE = 4096;
-          for (let i = 0; i < allUids.length; i += BATCH_SIZE) {
-            const batchUids = allUids.slice(i, i + BATCH_SIZE);
-            const users = await this.ctx.database.get('analyse_user', { uid: { $in: batchUids } }, ['uid', 'userName']);
-            for (const user of users) {
-              userNameMap.set(user.uid, user.userName);
-            }
-          }
+          const renderOptions = { text: options.text, guildId: session.guildId };
+          const { names, avatars } = await this.resolveUsers(limitedStats.map(s => s.uid), renderOptions);
+          const total = stats.reduce((sum, r) => sum + r.count, 0);
+          const list = limitedStats.map((r, i) => [names[i], r.count, percent(r.count, total), ...compareCells(r.uid, i + 1, r.count)]);
+          return this.renderer.renderList({ title, time: new Date(), total, list, avatars }, ['用户', '条数', '占比', ...compareHeaders], renderOptions);
+        })()));
+    }
+
+    if (this.config.enableRecallStat) {
+      cmd.subcommand('recallstat', '撤回排行')
+        .usage('查询撤回排行，可指定查询范围，默认当前群组。')
+        .option('guild', '-g <guildId:string> 指定群组')
+        .option('duration', '-n <hours:number> 指定时长', { fallback: 24 })
+        .option('offset', '-o <hours:number> 指定偏移', { fallback: 0 })
+        .option('limit', '-l <count:number> 限制数量')
+        .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
+        .action(({ session, options }) => handleAction(session, (async () => {
+          const scope = await this.parseScope(session, options);
+          if (scope.error) return scope.error;
+          const until = new Date(Date.now() - options.offset * Time.hour);
+          const since = new Date(until.getTime() - options.duration * Time.hour);
+          const query: any = { timestamp: { $gte: since, $lt: until } };
+          if (scope.uids) query.uid = { $in: scope.uids };
+          const stats = await this.ctx.database.select('analyse_recall').where(query).groupBy('uid', { count: row => $.sum(row.count) }).orderBy('count', 'desc').execute();
+          if (stats.length === 0) return '暂无统计数据';
+          const limitedStats = options.limit > 0 ? stats.slice(0, options.limit) : stats;
+          const users = await this.ctx.database.get('analyse_user', { uid: { $in: limitedStats.map(s => s.uid) } }, ['uid', 'userName']);
+          const userNameMap = new Map(users.map(u => [u.uid, u.userName]));
           const total = stats.reduce((sum, r) => sum + r.count, 0);
           const list = limitedStats.map(r => [userNameMap.get(r.uid) || `UID ${r.uid}`, r.count, total > 0 ? `${(r.count / total * 100).toFixed(2)}%` : '0.00%']);
-          return this.renderer.renderList({ title, time: new Date(), total, list }, ['用户', '条数', '占比']);
+          const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '撤回排行', timeRange: options.duration });
+          return this.renderer.renderList({ title, time: new Date(), total, list }, ['用户', '次数', '占比'], { text: options.text, guildId: session.guildId });
+        })()));
+    }
+
+    if (this.config.enableInteraction) {
+      cmd.subcommand('interaction', '互动关系')
+        .usage('查询群友之间的回复与提及关系，并生成网络图，默认当前群组。')
+        .option('guild', '-g <guildId:string> 指定群组')
+        .option('duration', '-n <hours:number> 指定时长', { fallback: 168 })
+        .option('offset', '-o <hours:number> 指定偏移', { fallback: 0 })
+        .option('limit', '-l <count:number> 限制人数', { fallback: 20 })
+        .option('text', '--text 以文本输出')
+        .action(({ session, options }) => handleAction(session, (async () => {
+          const scope = await this.parseScope(session, options);
+          if (scope.error) return scope.error;
+          const until = new Date(Date.now() - options.offset * Time.hour);
+          const since = new Date(until.getTime() - options.duration * Time.hour);
+          const query: any = { timestamp: { $gte: since, $lt: until } };
+          if (scope.uids) query.uid = { $in: scope.uids };
+          const edgeStats = await this.ctx.database.select('analyse_edge').where(query).groupBy(['uid', 'target'], { count: row => $.sum(row.count) }).execute();
+          if (edgeStats.length === 0) return '暂无统计数据';
+
+          // 以发言量选出最活跃的参与者作为节点
+          const participantUids = [...new Set(edgeStats.flatMap(e => [e.uid, e.target]))];
+          const rankStats = (this.config.enableRankStat || this.config.enableActivity)
+            ? await this.sumRankBy({ uid: { $in: participantUids }, timestamp: { $gte: since, $lt: until } }, 'uid')
+            : [];
+          const valueMap = new Map(rankStats.map(r => [r.uid, r.count]));
+          const nodeUids = participantUids.sort((a, b) => (valueMap.get(b) ?? 0) - (valueMap.get(a) ?? 0));
+          if (options.limit > 0) nodeUids.splice(options.limit);
+          const indexMap = new Map(nodeUids.map((uid, i) => [uid, i]));
+
+          const edges = edgeStats
+            .filter(e => indexMap.has(e.uid) && indexMap.has(e.target))
+            .map(e => ({ source: indexMap.get(e.uid), target: indexMap.get(e.target), weight: e.count }));
+          if (edges.length === 0) return '暂无统计数据';
+
+          const users = await this.ctx.database.get('analyse_user', { uid: { $in: nodeUids } }, ['uid', 'userName']);
+          const userNameMap = new Map(users.map(u => [u.uid, u.userName]));
+          const nodes = nodeUids.map(uid => ({ name: userNameMap.get(uid) || `UID ${uid}`, value: valueMap.get(uid) ?? 0 }));
+          const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '互动关系', timeRange: options.duration });
+          return this.renderer.renderGraph({ title, time: new Date(), nodes, edges }, { text: options.text, guildId: session.guildId });
         })()));
     }
 
     if (this.config.enableActivity) {
       cmd.subcommand('activity', '活跃统计')
-        .usage('查询活跃统计，可指定查询范围，默认当前群组。')
+        .usage('查询活跃统计，可指定查询范围，默认当前群组。使用 -w 时按天计算时长并生成星期热力图。')
         .option('user', '-u <user:string> 指定用户')
         .option('guild', '-g <guildId:string> 指定群组')
         .option('duration', '-n <units:number> 指定时长', { fallback: 24 })
         .option('offset', '-o <units:number> 指定偏移', { fallback: 0 })
         .option('days', '-d 以天为粒度')
+        .option('week', '-w 星期热力图')
         .option('all', '-a 全局统计')
+        .option('text', '--text 以文本输出')
         .action(({ session, options }) => handleAction(session, (async () => {
           const scope = await this.parseScope(session, options);
           if (scope.error) return scope.error;
+          if (options.week) {
+            // 热力图模式下时长以天为单位，按“星期 × 小时”聚合
+            const until = new Date(Date.now() - options.offset * Time.day);
+            let since = new Date(until.getTime() - options.duration * Time.day);
+            // 按天汇总的记录不含小时信息，热力图仅统计按小时记录
+            const cutoff = getHourlyCutoff(this.config);
+            if (cutoff && until <= cutoff) return `按小时记录仅保留 ${this.config.rankHourlyDays} 天，无法生成更早的热力图`;
+            if (cutoff && since < cutoff) {
+              since = cutoff;
+              await session.send(`按小时记录仅保留 ${this.config.rankHourlyDays} 天，热力图仅统计 ${since.toLocaleDateString('zh-CN')} 之后的数据`);
+            }
+            const query: any = { timestamp: { $gte: since, $lt: until } };
+            if (scope.uids) query.uid = { $in: scope.uids };
+            const stats = await this.ctx.database.select('analyse_rank').where(query).project(['timestamp', 'count']).execute();
+            if (stats.length === 0) return '暂无统计数据';
+            const matrix = Array.from({ length: 7 }, () => Array(24).fill(0));
+            stats.forEach(stat => {
+              const weekday = (stat.timestamp.getDay() + 6) % 7;
+              matrix[weekday][stat.timestamp.getHours()] += stat.count;
+            });
+            const rowLabels = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+            const colLabels = Array.from({ length: 24 }, (_, i) => String(i));
+            const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '活跃', timeRange: options.duration, timeUnit: '天' });
+            return this.renderer.renderHeatmap({ title, time: new Date(), rowLabels, colLabels, matrix }, { text: options.text, guildId: session.guildId });
+          }
           const timeUnit = options.days ? Time.day : Time.hour;
           const timeUnitName = options.days ? '天' : '小时';
           const points = options.days ? 24 : 24;
           const until = new Date(Date.now() - options.offset * timeUnit);
-          const since = new Date(until.getTime() - options.duration * timeUnit);
+          // 按天统计时以自然日划分，使零点的按天汇总记录落在对应日期中
+          if (options.days) until.setHours(24, 0, 0, 0);
+          let since = new Date(until.getTime() - options.duration * timeUnit);
+          // 按天汇总的记录不含小时信息，按小时统计时仅使用保留期内的按小时记录
+          const cutoff = options.days ? undefined : getHourlyCutoff(this.config);
+          if (cutoff && until <= cutoff) return `按小时记录仅保留 ${this.config.rankHourlyDays} 天，请使用 -d 按天查询更早的数据`;
+          if (cutoff && since < cutoff) {
+            since = cutoff;
+            await session.send(`按小时记录仅保留 ${this.config.rankHourlyDays} 天，仅统计 ${since.toLocaleDateString('zh-CN')} 之后的数据`);
+          }
           const query: any = { timestamp: { $gte: since, $lt: until } };
           if (scope.uids) query.uid = { $in: scope.uids };
-          const stats = await this.ctx.database.select('analyse_rank').where(query).project(['timestamp', 'count']).execute();
+          const stats = options.days ? await this.getRankRecords(query) : await this.ctx.database.get('analyse_rank', query);
           if (stats.length === 0) return '暂无统计数据';
           const counts = Array(points).fill(0);
           const labels = Array(points).fill('');
@@ -261,7 +500,7 @@ export class Stat {
           });
           const title = await generateTitle(this.ctx, scope.scopeDesc, { main: '活跃', timeRange: options.duration, timeUnit: timeUnitName });
           const series = [{ name: '活跃度', data: counts }];
-          return this.renderer.renderLineChart({ title, time: new Date(), series, labels });
+          return this.renderer.renderLineChart({ title, time: new Date(), series, labels }, { text: options.text, guildId: session.guildId });
         })()));
     }
   }
@@ -0,0 +1,141 @@
+import { Context, Command, Tables } from 'koishi';
+import {} from 'koishi-plugin-cron';
+import { Config } from './index';
+
+// 扩展数据表接口
+declare module 'koishi' {
+  interface Tables {
+    analyse_sub: { id: number; platform: string; selfId: string; channelId: string; guildId: string; userId: string; report: string; cron: string; window: number };
+  }
+}
+
+/** 定义可订阅的报表及其对应的指令模板，`window` 为统计时长。 */
+const REPORTS: Record<string, { name: string; build: (window: number) => string }> = {
+  rankstat: { name: '发言排行', build: (window) => `rankstat -n ${window}` },
+  activity: { name: '活跃统计', build: (window) => `activity -n ${window}` },
+  wordcloud: { name: '生成词云', build: (window) => `wordcloud -t ${window}` },
+};
+
+/**
+ * @class Subscribe
+ * @description 负责定时报表推送，包括订阅管理和按 cron 表达式将报表图片发送到群组。
+ */
+export class Subscribe {
+  private tasks = new Map<number, () => void>();
+
+  /**
+   * @param ctx - Koishi 的插件上下文。
+   * @param config - 插件的配置对象。
+   */
+  constructor(private ctx: Context, private config: Config) {
+    this.ctx.model.extend('analyse_sub', {
+      id: 'unsigned', platform: 'string', selfId: 'string', channelId: 'string', guildId: 'string',
+      userId: 'string', report: 'string', cron: 'string', window: 'unsigned',
+    }, { primary: 'id', autoInc: true, indexes: ['channelId'] });
+
+    this.ctx.on('ready', async () => {
+      const subscriptions = await this.ctx.database.get('analyse_sub', {});
+      for (const sub of subscriptions) this.schedule(sub);
+    });
+  }
+
+  /**
+   * @private @method schedule
+   * @description 为订阅注册定时任务，任务触发时以订阅者身份在目标频道中执行报表指令。
+   * @param sub - 订阅记录。
+   * @returns 注册成功返回 true，cron 表达式无效时返回 false。
+   */
+  private schedule(sub: Tables['analyse_sub']): boolean {
+    try {
+      const dispose = this.ctx.cron(sub.cron, () => this.push(sub));
+      this.tasks.set(sub.id, dispose);
+      return true;
+    } catch (error) {
+      this.ctx.logger.warn(`订阅(${sub.id})的 cron 表达式无效:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * @private @method push
+   * @description 构造目标频道的会话并执行报表指令，并将指令的输出发送到该频道。
+   *   对应指令未启用或没有输出时记录警告，避免订阅静默失效。
+   * @param sub - 订阅记录。
+   */
+  private async push(sub: Tables['analyse_sub']) {
+    const bot = this.ctx.bots[`${sub.platform}:${sub.selfId}`];
+    if (!bot) return this.ctx.logger.warn(`订阅(${sub.id})的机器人 ${sub.platform}:${sub.selfId} 不在线`);
+    const report = REPORTS[sub.report];
+    if (!report) return this.ctx.logger.warn(`订阅(${sub.id})的报表 ${sub.report} 无效`);
+    const content = report.build(sub.window);
+    if (!this.ctx.$commander.get(content.split(' ')[0])) return this.ctx.logger.warn(`订阅(${sub.id})的报表指令 ${content} 未启用`);
+    try {
+      const session = bot.session({
+        type: 'message',
+        channel: { id: sub.channelId, type: 0 },
+        guild: { id: sub.guildId },
+        user: { id: sub.userId },
+      });
+      // 图表类指令在执行过程中自行发送图片，因此通过统计发送次数判断是否有输出
+      let sent = 0;
+      const send = session.send.bind(session) as typeof session.send;
+      session.send = (...args) => (sent++, send(...args));
+      const output = await session.execute(content, true);
+      if (output.length) await session.send(output);
+      if (!sent) this.ctx.logger.warn(`订阅(${sub.id})的报表指令 ${content} 没有输出`);
+    } catch (error) {
+      this.ctx.logger.error(`推送订阅(${sub.id})失败:`, error);
+    }
+  }
+
+  /**
+   * @public @method registerCommands
+   * @description 在主命令下注册订阅管理相关的子命令。
+   * @param cmd - 主命令实例。
+   */
+  public registerCommands(cmd: Command) {
+    cmd.subcommand('.subscribe [report:string] [cron:text]', '订阅报表', { authority: 3 })
+      .usage(`按 cron 表达式定时向当前群组推送报表，可选报表：${Object.keys(REPORTS).join('、')}。不带参数时列出当前群组的订阅。`)
+      .example('analyse.subscribe rankstat 0 22 * * *')
+      .option('window', '-n <hours:number> 指定时长', { fallback: 24 })
+      .action(async ({ session, options }, report, cron) => {
+        if (!session.channelId || session.isDirect) return '请在群组中使用此命令';
+
+        if (!report) {
+          const subscriptions = await this.ctx.database.get('analyse_sub', { platform: session.platform, channelId: session.channelId });
+          if (subscriptions.length === 0) return '当前群组暂无订阅';
+          return '订阅列表:\n' + subscriptions.map(s => `[${s.id}] ${REPORTS[s.report]?.name ?? s.report} (${s.window}) ${s.cron}`).join('\n');
+        }
+
+        if (!REPORTS[report]) return `报表 ${report} 无效`;
+        if (!cron) return '请指定 cron 表达式';
+        if (!(options.window > 0)) return '时长必须大于 0';
+
+        try {
+          const sub = await this.ctx.database.create('analyse_sub', {
+            platform: session.platform, selfId: session.selfId, channelId: session.channelId,
+            guildId: session.guildId ?? '', userId: session.userId, report, cron: cron.trim(), window: options.window,
+          });
+          if (!this.schedule(sub)) {
+            await this.ctx.database.remove('analyse_sub', { id: sub.id });
+            return 'cron 表达式无效';
+          }
+          return `已订阅${REPORTS[report].name} [${sub.id}]`;
+        } catch (error) {
+          this.ctx.logger.error('创建订阅失败:', error);
+          return '创建订阅失败';
+        }
+      });
+
+    cmd.subcommand('.unsubscribe <id:number>', '取消订阅', { authority: 3 })
+      .usage('取消当前群组中指定编号的报表订阅。')
+      .action(async ({ session }, id) => {
+        if (!id) return '请指定订阅编号';
+        const result = await this.ctx.database.remove('analyse_sub', { id, platform: session.platform, channelId: session.channelId });
+        if (!result.removed) return `订阅 ${id} 不存在`;
+        this.tasks.get(id)?.();
+        this.tasks.delete(id);
+        return `已取消订阅 [${id}]`;
+      });
+  }
+}
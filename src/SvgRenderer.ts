@@ -0,0 +1,321 @@
+import { Resvg } from '@resvg/resvg-js';
+import type { ListRenderData, LineChartData, HeatmapData } from './Renderer';
+import { Theme } from './Theme';
+import { SeriesStyle, renderLegendSample, renderSeries } from './Palette';
+
+/** 未在主题中指定字体时使用的字体，需在系统中安装对应的中文字体。 */
+const FONT_FAMILY = `'Noto Sans CJK SC', 'Source Han Sans SC', 'Microsoft YaHei', 'PingFang SC', sans-serif`;
+/** 卡片头部的高度。 */
+const HEADER_HEIGHT = 48;
+/** 卡片外侧留白，与 HTML 卡片中 body 的内边距一致。 */
+const MARGIN = 8;
+
+/**
+ * @class SvgRenderer
+ * @description 不依赖浏览器，直接生成 SVG 卡片并使用 resvg 栅格化为 PNG，用于列表、折线图和热力图的快速渲染。
+ */
+export class SvgRenderer {
+  /**
+   * @param formatDate - 将日期格式化为相对时间的函数，与 HTML 卡片保持一致。
+   */
+  constructor(private formatDate: (date: Date) => string) {}
+
+  /**
+   * @private
+   * @method escape
+   * @description 转义 SVG 文本中的 XML 特殊字符。
+   * @param text - 原始文本。
+   * @returns 转义后的文本。
+   */
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  /**
+   * @private
+   * @method measure
+   * @description 估算文本的渲染宽度，全角字符按一个字号计算，其余字符按 0.6 个字号计算。
+   * @param text - 文本内容。
+   * @param fontSize - 字号。
+   * @returns 估算的宽度。
+   */
+  private measure(text: string, fontSize: number): number {
+    let width = 0;
+    for (const char of text) width += char.codePointAt(0) > 0x2e80 ? 1 : 0.6;
+    return width * fontSize;
+  }
+
+  /**
+   * @private
+   * @method truncate
+   * @description 将文本截断到指定宽度以内，超出部分以省略号代替。
+   * @param text - 文本内容。
+   * @param fontSize - 字号。
+   * @param maxWidth - 最大宽度。
+   * @returns 截断后的文本。
+   */
+  private truncate(text: string, fontSize: number, maxWidth: number): string {
+    if (this.measure(text, fontSize) <= maxWidth) return text;
+    const chars = Array.from(text);
+    while (chars.length && this.measure(chars.join('') + '…', fontSize) > maxWidth) chars.pop();
+    return chars.join('') + '…';
+  }
+
+  /**
+   * @private
+   * @method getColors
+   * @description 从主题中读取 SVG 卡片使用的颜色。
+   * @param theme - 卡片使用的主题。
+   * @returns 以驼峰命名的颜色对象。
+   */
+  private getColors(theme: Theme) {
+    const v = theme.variables;
+    return {
+      cardBg: v['card-bg'], textColor: v['text-color'], headerColor: v['header-color'],
+      subTextColor: v['sub-text-color'], borderColor: v['border-color'], accentColor: v['accent-color'],
+      chipBg: v['chip-bg'], stripeBg: v['stripe-bg'], gold: v['gold'],
+      silver: v['silver'], bronze: v['bronze'], up: v['up-color'], down: v['down-color'],
+    };
+  }
+
+  /**
+   * @private
+   * @method renderCard
+   * @description 生成包含头部（总计、标题、时间）的完整卡片 SVG。
+   * @param width - 卡片宽度。
+   * @param bodyHeight - 卡片主体高度。
+   * @param header - 卡片头部的标题、时间和总计。
+   * @param body - 卡片主体的 SVG 元素，坐标以主体左上角为原点。
+   * @param theme - 卡片使用的主题。
+   * @param defs - （可选）需要放入 `<defs>` 的定义。
+   * @returns 完整的 SVG 字符串。
+   */
+  private renderCard(width: number, bodyHeight: number, header: { title: string; time: Date; total: string | number }, body: string, theme: Theme, defs = ''): string {
+    const { cardBg, borderColor, chipBg, subTextColor, textColor, headerColor } = this.getColors(theme);
+    const totalText = typeof header.total === 'number' ? header.total.toLocaleString() : String(header.total);
+    const timeText = header.time.toLocaleString('zh-CN', { hour12: false });
+    const chipWidth = this.measure('总计: ', 13) + this.measure(totalText, 13) + 20;
+    const timeWidth = this.measure(timeText, 13) + 16;
+    const titleWidth = width - chipWidth - timeWidth - 64;
+    const title = this.truncate(header.title, 16, titleWidth);
+    const height = HEADER_HEIGHT + bodyHeight;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width + MARGIN * 2}" height="${height + MARGIN * 2}" font-family="${this.escape(theme.fontFamily || FONT_FAMILY)}">
+      <defs>
+        <filter id="shadow" x="-5%" y="-5%" width="110%" height="110%"><feDropShadow dx="0" dy="4" stdDeviation="3" flood-color="#000" flood-opacity="0.05"/></filter>
+        <clipPath id="card"><rect x="${MARGIN}" y="${MARGIN}" width="${width}" height="${height}" rx="12"/></clipPath>
+        ${defs}
+      </defs>
+      <rect x="${MARGIN}" y="${MARGIN}" width="${width}" height="${height}" rx="12" fill="${cardBg}" filter="url(#shadow)"/>
+      ${theme.background ? `<image href="${this.escape(theme.background)}" x="${MARGIN}" y="${MARGIN}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice" clip-path="url(#card)"/>` : ''}
+      <g transform="translate(${MARGIN}, ${MARGIN})">
+        <rect x="16" y="12" width="${chipWidth}" height="24" rx="8" fill="${chipBg}"/>
+        <text x="24" y="29" font-size="13" fill="${subTextColor}">总计: <tspan font-weight="600" fill="${textColor}">${this.escape(totalText)}</tspan></text>
+        <text x="${width / 2}" y="30" font-size="16" font-weight="600" fill="${headerColor}" text-anchor="middle">${this.escape(title)}</text>
+        <rect x="${width - 16 - timeWidth}" y="12" width="${timeWidth}" height="24" rx="8" fill="${chipBg}"/>
+        <text x="${width - 24}" y="29" font-size="13" fill="${subTextColor}" text-anchor="end">${this.escape(timeText)}</text>
+        <line x1="0" y1="${HEADER_HEIGHT}" x2="${width}" y2="${HEADER_HEIGHT}" stroke="${borderColor}"/>
+        <g transform="translate(0, ${HEADER_HEIGHT})">${body}</g>
+      </g>
+    </svg>`;
+  }
+
+  /**
+   * @public
+   * @method toImage
+   * @description 使用 resvg 将 SVG 栅格化为 PNG 图片。
+   * @param svg - 完整的 SVG 字符串。
+   * @returns PNG 图片的 Buffer。
+   */
+  public toImage(svg: string): Buffer {
+    const resvg = new Resvg(svg, { font: { loadSystemFonts: true, defaultFontFamily: 'Noto Sans CJK SC' } });
+    return resvg.render().asPng();
+  }
+
+  /**
+   * @public
+   * @method renderList
+   * @description 生成列表卡片的 SVG，样式与 HTML 列表卡片一致。
+   * @param data - 包含标题、时间、总计和列表数据的对象。
+   * @param headers - （可选）列表的表头数组。
+   * @param offset - 首行的排名偏移量，用于分段渲染。
+   * @param theme - 卡片使用的主题。
+   * @returns 完整的 SVG 字符串。
+   */
+  public renderList(data: ListRenderData, headers: string[] = [], offset: number, theme: Theme): string {
+    const { title, time, total, list, avatars } = data;
+    const { textColor, subTextColor, accentColor, borderColor, chipBg, stripeBg, gold, silver, bronze, up, down } = this.getColors(theme);
+    const ROW_HEIGHT = 36;
+    const HEAD_HEIGHT = headers.length ? 32 : 0;
+    const PADDING = 16;
+    const AVATAR_SIZE = 22;
+    const avatarSpace = (col: number) => avatars && col === 0 ? AVATAR_SIZE + 8 : 0;
+
+    const columnCount = Math.max(headers.length, ...list.map(row => row.length));
+    const cells = list.map(row => row.map(cell => cell instanceof Date ? this.formatDate(cell) : typeof cell === 'number' ? cell.toLocaleString() : String(cell)));
+    const isNameColumn = (col: number) => list.some(row => typeof row[col] === 'string' && !/占比|变化|增减/.test(headers[col] || ''));
+    const rankWidth = this.measure(String(offset + list.length), 14) + PADDING * 2;
+    const widths = Array.from({ length: columnCount }, (_, col) =>
+      Math.max(this.measure(headers[col] || '', 12), ...cells.map(row => this.measure(row[col] ?? '', 14))) + PADDING * 2 + avatarSpace(col) + (/占比/.test(headers[col] || '') ? 4 : 0));
+
+    // 与 HTML 卡片一致，将宽度限制在 480-640 之间，由名称列吸收多余或不足的宽度
+    const nameColumns = widths.map((_, col) => col).filter(isNameColumn);
+    const contentWidth = rankWidth + widths.reduce((a, b) => a + b, 0);
+    const width = Math.min(640, Math.max(480, contentWidth));
+    if (nameColumns.length) {
+      const delta = (width - contentWidth) / nameColumns.length;
+      for (const col of nameColumns) widths[col] = Math.max(PADDING * 2 + avatarSpace(col) + 28, widths[col] + delta);
+    }
+
+    let body = '';
+    if (headers.length) {
+      body += `<text x="${rankWidth - PADDING}" y="21" font-size="12" font-weight="500" fill="${subTextColor}" text-anchor="end">#</text>`;
+      let x = rankWidth;
+      headers.forEach((header, col) => {
+        const alignRight = !isNameColumn(col);
+        body += `<text x="${alignRight ? x + widths[col] - PADDING : x + PADDING}" y="21" font-size="12" font-weight="500" fill="${subTextColor}" text-anchor="${alignRight ? 'end' : 'start'}">${this.escape(header)}</text>`;
+        x += widths[col];
+      });
+      body += `<line x1="0" y1="${HEAD_HEIGHT}" x2="${width}" y2="${HEAD_HEIGHT}" stroke="${borderColor}"/>`;
+    }
+
+    list.forEach((row, index) => {
+      const y = HEAD_HEIGHT + index * ROW_HEIGHT;
+      const baseline = y + ROW_HEIGHT / 2 + 5;
+      const rank = offset + index + 1;
+      if (index % 2 === 1) body += `<rect x="0" y="${y}" width="${width}" height="${ROW_HEIGHT}" fill="${stripeBg}"/>`;
+      const rankColor = rank === 1 ? gold : rank === 2 ? silver : rank === 3 ? bronze : subTextColor;
+      body += `<text x="${rankWidth - PADDING}" y="${baseline}" font-size="14" font-weight="${rank <= 3 ? 700 : 600}" fill="${rankColor}" text-anchor="end">${rank}</text>`;
+
+      let x = rankWidth;
+      row.forEach((cell, col) => {
+        const header = headers[col] || '';
+        const text = cells[index][col];
+        const right = x + widths[col] - PADDING;
+        if (header.includes('占比')) {
+          const barWidth = Math.max(0, Math.min(100, parseFloat(text) || 0)) / 100 * (widths[col] - PADDING);
+          body += `<rect x="${x + widths[col] - barWidth}" y="${y + ROW_HEIGHT / 2 - 3}" width="${barWidth}" height="6" rx="3" fill="${accentColor}" fill-opacity="0.2"/>`;
+          body += `<text x="${right - 4}" y="${baseline}" font-size="14" fill="${textColor}" text-anchor="end">${this.escape(text)}</text>`;
+        } else if (header.includes('变化') || header === '增减') {
+          const color = text === 'NEW' ? accentColor : /^[↑+]/.test(text) ? up : /^[↓-]\d/.test(text) ? down : subTextColor;
+          body += `<text x="${right}" y="${baseline}" font-size="14" font-weight="600" fill="${color}" text-anchor="end">${this.escape(text)}</text>`;
+        } else if (typeof cell === 'number') {
+          body += `<text x="${right}" y="${baseline}" font-size="14" font-weight="600" fill="${accentColor}" text-anchor="end">${text}</text>`;
+        } else if (cell instanceof Date) {
+          body += `<text x="${right}" y="${baseline}" font-size="14" fill="${textColor}" text-anchor="end">${this.escape(text)}</text>`;
+        } else {
+          if (avatarSpace(col)) {
+            const cx = x + PADDING + AVATAR_SIZE / 2;
+            const cy = y + ROW_HEIGHT / 2;
+            const avatar = avatars[index];
+            if (avatar) {
+              body += `<clipPath id="avatar-${index}"><circle cx="${cx}" cy="${cy}" r="${AVATAR_SIZE / 2}"/></clipPath>`;
+              body += `<image href="${this.escape(avatar)}" x="${cx - AVATAR_SIZE / 2}" y="${cy - AVATAR_SIZE / 2}" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" preserveAspectRatio="xMidYMid slice" clip-path="url(#avatar-${index})"/>`;
+            } else {
+              body += `<circle cx="${cx}" cy="${cy}" r="${AVATAR_SIZE / 2}" fill="${chipBg}"/>`;
+              body += `<text x="${cx}" y="${cy + 4}" font-size="12" font-weight="600" fill="${accentColor}" text-anchor="middle">${this.escape(Array.from(text)[0]?.toUpperCase() ?? '')}</text>`;
+            }
+          }
+          const name = this.truncate(text, 14, widths[col] - PADDING * 2 - avatarSpace(col));
+          body += `<text x="${x + PADDING + avatarSpace(col)}" y="${baseline}" font-size="14" font-weight="500" fill="${textColor}">${this.escape(name)}</text>`;
+        }
+        x += widths[col];
+      });
+    });
+
+    const totalCount = total ?? list.length;
+    return this.renderCard(width, HEAD_HEIGHT + list.length * ROW_HEIGHT, { title, time, total: totalCount }, body, theme);
+  }
+
+  /**
+   * @public
+   * @method renderLineChart
+   * @description 生成折线图卡片的 SVG，坐标布局与 HTML 折线图一致。
+   * @param data - 包含标题、时间、数据系列和标签的对象。
+   * @param seriesStyles - 每组数据系列使用的样式。
+   * @param theme - 卡片使用的主题。
+   * @returns 完整的 SVG 字符串。
+   */
+  public renderLineChart(data: LineChartData, seriesStyles: SeriesStyle[], theme: Theme): string {
+    const { title, time, series, labels } = data;
+    const { borderColor, subTextColor, textColor } = this.getColors(theme);
+    const maxVal = Math.max(1, ...series.flatMap(s => s.data));
+    const yTickCount = 5;
+    const yTickValue = Math.ceil(maxVal / yTickCount);
+    const yAxisMax = yTickValue * yTickCount;
+    const getX = (index: number) => labels.length <= 1 ? 320 : 40 + (index / (labels.length - 1)) * 540;
+    const getY = (value: number) => 250 - (value / yAxisMax) * 240;
+
+    let body = '';
+    for (let i = 0; i <= yTickCount; i++) {
+      const y = getY(i * yTickValue);
+      body += `<line x1="40" y1="${y}" x2="580" y2="${y}" stroke="${borderColor}"/>`;
+      body += `<text x="32" y="${y + 4}" font-size="10" fill="${subTextColor}" text-anchor="end">${i * yTickValue}</text>`;
+    }
+    labels.forEach((label, index) => {
+      if (labels.length > 1 && index % Math.ceil(labels.length / 12) === 0) {
+        body += `<text x="${getX(index)}" y="270" font-size="10" fill="${subTextColor}" text-anchor="middle">${this.escape(label)}</text>`;
+      }
+    });
+    series.forEach((s, index) => {
+      body += renderSeries(s.data.map((value, i): [number, number] => [getX(i), getY(value)]), seriesStyles[index]);
+    });
+
+    let chartHeight = 280;
+    if (series.length > 1) {
+      const columnWidth = 560 / 3;
+      series.forEach((s, index) => {
+        const legendX = 40 + (index % 3) * columnWidth;
+        const legendY = 300 + Math.floor(index / 3) * 15;
+        body += renderLegendSample(seriesStyles[index], legendX, legendY);
+        body += `<text x="${legendX + 18}" y="${legendY}" font-size="12" fill="${textColor}">${this.escape(this.truncate(s.name, 12, columnWidth - 24))}</text>`;
+      });
+      chartHeight += 20 + Math.ceil(series.length / 3) * 15;
+    }
+
+    const total = series.reduce((sum, s) => sum + s.data.reduce((a, b) => a + b, 0), 0);
+    return this.renderCard(620, chartHeight + 20, { title, time, total }, `<g transform="translate(10, 10)">${body}</g>`, theme);
+  }
+
+  /**
+   * @public
+   * @method renderHeatmap
+   * @description 生成热力图卡片的 SVG，单元格透明度与数值大小成正比。
+   * @param data - 包含标题、时间、行列标签和数值矩阵的对象。
+   * @param theme - 卡片使用的主题。
+   * @returns 完整的 SVG 字符串。
+   */
+  public renderHeatmap(data: HeatmapData, theme: Theme): string {
+    const { title, time, rowLabels, colLabels, matrix } = data;
+    const { subTextColor, chipBg, accentColor } = this.getColors(theme);
+    const WIDTH = 600;
+    const LABEL_WIDTH = 40;
+    const GAP = 2;
+    const CELL_HEIGHT = 20;
+    const maxVal = Math.max(1, ...matrix.flat());
+    const total = matrix.flat().reduce((a, b) => a + b, 0);
+    const cellWidth = (WIDTH - 32 - LABEL_WIDTH - GAP * colLabels.length) / colLabels.length;
+    const cellX = (col: number) => 16 + LABEL_WIDTH + GAP + col * (cellWidth + GAP);
+
+    let body = colLabels.map((label, col) =>
+      `<text x="${cellX(col) + cellWidth / 2}" y="24" font-size="10" font-weight="500" fill="${subTextColor}" text-anchor="middle">${this.escape(label)}</text>`).join('');
+    matrix.forEach((row, rowIndex) => {
+      const y = 32 + rowIndex * (CELL_HEIGHT + GAP);
+      body += `<text x="${16 + LABEL_WIDTH - 4}" y="${y + 14}" font-size="10" font-weight="500" fill="${subTextColor}" text-anchor="end">${this.escape(rowLabels[rowIndex])}</text>`;
+      row.forEach((value, col) => {
+        body += `<rect x="${cellX(col)}" y="${y}" width="${cellWidth}" height="${CELL_HEIGHT}" rx="3" fill="${chipBg}"/>`;
+        if (value > 0) body += `<rect x="${cellX(col)}" y="${y}" width="${cellWidth}" height="${CELL_HEIGHT}" rx="3" fill="${accentColor}" fill-opacity="${(0.15 + 0.85 * value / maxVal).toFixed(3)}"/>`;
+      });
+    });
+
+    const legendY = 32 + matrix.length * (CELL_HEIGHT + GAP) + 8;
+    const maxText = `多 (${maxVal.toLocaleString()})`;
+    const maxTextX = WIDTH - 16 - this.measure(maxText, 11);
+    body += `<text x="${maxTextX - 108}" y="${legendY + 9}" font-size="11" fill="${subTextColor}" text-anchor="end">少</text>`;
+    body += `<rect x="${maxTextX - 102}" y="${legendY + 1}" width="96" height="8" rx="4" fill="url(#heat-legend)"/>`;
+    body += `<text x="${maxTextX}" y="${legendY + 9}" font-size="11" fill="${subTextColor}">${maxText}</text>`;
+
+    const defs = `<linearGradient id="heat-legend"><stop offset="0" stop-color="${chipBg}"/><stop offset="1" stop-color="${accentColor}"/></linearGradient>`;
+    return this.renderCard(WIDTH, legendY + 24, { title, time, total }, body, theme, defs);
+  }
+}
@@ -0,0 +1,146 @@
+import type { ListRenderData, LineChartData, HeatmapData, GraphData } from './Renderer';
+import type { WordCloudData } from './Analyse';
+
+/** 迷你折线图使用的字符，从低到高排列。 */
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+/** 热力图使用的字符，从低到高排列。 */
+const SHADE_CHARS = '·░▒▓█';
+
+/**
+ * @class TextRenderer
+ * @description 将结构化数据渲染为纯文本，用于无法使用 puppeteer 的环境或指定以文本输出时。
+ */
+export class TextRenderer {
+  /** 每条文本消息包含的最大列表行数。 */
+  private static readonly CHUNK_SIZE = 50;
+  /** 文本词云中显示的最大词数。 */
+  private static readonly MAX_WORDS = 30;
+
+  /**
+   * @private
+   * @method formatHeader
+   * @description 生成包含标题、时间和总计的文本头部。
+   * @param title - 标题。
+   * @param time - 生成时间。
+   * @param summary - （可选）附加在时间后的摘要。
+   * @returns 文本头部。
+   */
+  private formatHeader(title: string, time: Date, summary?: string): string {
+    const timeText = time.toLocaleString('zh-CN', { hour12: false });
+    return `${title}\n${timeText}${summary ? ` | ${summary}` : ''}`;
+  }
+
+  /**
+   * @private
+   * @method formatCell
+   * @description 将列表单元格格式化为文本。
+   * @param cell - 单元格数据。
+   * @returns 格式化后的文本。
+   */
+  private formatCell(cell: string | number | Date): string {
+    if (cell instanceof Date) return cell.toLocaleString('zh-CN', { hour12: false });
+    if (typeof cell === 'number') return cell.toLocaleString();
+    return String(cell);
+  }
+
+  /**
+   * @private
+   * @method sparkline
+   * @description 将数值序列转换为迷你折线图字符串。
+   * @param values - 数值序列。
+   * @param max - 用于归一化的最大值。
+   * @returns 迷你折线图字符串。
+   */
+  private sparkline(values: number[], max: number): string {
+    return values.map(value => SPARK_CHARS[max > 0 ? Math.round(value / max * (SPARK_CHARS.length - 1)) : 0]).join('');
+  }
+
+  /**
+   * @public
+   * @method renderList
+   * @description 将表格型数据渲染为文本列表，数据过多时拆分为多条文本。
+   * @param data - 包含标题、时间、总计和列表数据的对象。
+   * @param headers - （可选）列表的表头数组。
+   * @param offset - （可选）首行的排名偏移量，用于分段渲染。
+   * @returns 文本数组，每项为一条消息。
+   */
+  public renderList(data: ListRenderData, headers?: string[], offset = 0): string[] {
+    const { title, time, list } = data;
+    const countHeaderIndex = headers?.findIndex(h => ['总计发言', '条数', '次数', '数量'].includes(h)) ?? -1;
+    const total = data.total || (countHeaderIndex > -1 ? list.reduce((sum, row) => sum + (Number(row[countHeaderIndex]) || 0), 0) : list.length);
+    const header = this.formatHeader(title, time, `总计: ${typeof total === 'number' ? total.toLocaleString() : total}`);
+
+    const messages: string[] = [];
+    for (let i = 0; i < list.length; i += TextRenderer.CHUNK_SIZE) {
+      const rows = list.slice(i, i + TextRenderer.CHUNK_SIZE)
+        .map((row, index) => `${offset + i + index + 1}. ${row.map(cell => this.formatCell(cell)).join(' | ')}`);
+      const lines = i === 0 ? [header, ...(headers?.length ? [`#. ${headers.join(' | ')}`] : []), ...rows] : rows;
+      messages.push(lines.join('\n'));
+    }
+    return messages.length ? messages : [header];
+  }
+
+  /**
+   * @public
+   * @method renderLineChart
+   * @description 将时间序列数据渲染为每组数据一行的迷你折线图。
+   * @param data - 包含标题、时间、数据系列和标签的对象。
+   * @returns 文本内容。
+   */
+  public renderLineChart(data: LineChartData): string {
+    const { title, time, series, labels } = data;
+    const max = Math.max(0, ...series.flatMap(s => s.data));
+    const lines = series.map(s => {
+      const total = s.data.reduce((sum, value) => sum + value, 0);
+      return `${s.name}: ${this.sparkline(s.data, max)} (总计 ${total.toLocaleString()}, 峰值 ${Math.max(0, ...s.data).toLocaleString()})`;
+    });
+    const range = labels.length ? `${labels[0]} ~ ${labels[labels.length - 1]}` : '';
+    return [this.formatHeader(title, time, range), ...lines].join('\n');
+  }
+
+  /**
+   * @public
+   * @method renderHeatmap
+   * @description 将矩阵数据渲染为以字符深浅表示数值的文本热力图。
+   * @param data - 包含标题、时间、行列标签和数值矩阵的对象。
+   * @returns 文本内容。
+   */
+  public renderHeatmap(data: HeatmapData): string {
+    const { title, time, rowLabels, colLabels, matrix } = data;
+    const max = Math.max(0, ...matrix.flat());
+    const labelWidth = Math.max(...rowLabels.map(label => label.length));
+    const rows = matrix.map((row, index) => {
+      const cells = row.map(value => SHADE_CHARS[max > 0 ? Math.ceil(value / max * (SHADE_CHARS.length - 1)) : 0]).join('');
+      return `${rowLabels[index].padEnd(labelWidth, '　')} ${cells}`;
+    });
+    const axis = `${colLabels[0]} ~ ${colLabels[colLabels.length - 1]}`;
+    return [this.formatHeader(title, time, `${axis}，峰值 ${max.toLocaleString()}`), ...rows].join('\n');
+  }
+
+  /**
+   * @public
+   * @method renderGraph
+   * @description 将关系网络渲染为按权重降序排列的关系列表。
+   * @param data - 包含标题、时间、节点和边的对象。
+   * @returns 文本内容。
+   */
+  public renderGraph(data: GraphData): string {
+    const { title, time, nodes, edges } = data;
+    const lines = [...edges].sort((a, b) => b.weight - a.weight)
+      .map((edge, index) => `${index + 1}. ${nodes[edge.source].name} → ${nodes[edge.target].name}: ${edge.weight.toLocaleString()}`);
+    return [this.formatHeader(title, time, `${nodes.length} 人，${edges.length} 条关系`), ...lines].join('\n');
+  }
+
+  /**
+   * @public
+   * @method renderWordCloud
+   * @description 将词频数据渲染为热门词语列表。
+   * @param data - 包含标题、时间和词频的对象。
+   * @returns 文本内容。
+   */
+  public renderWordCloud(data: WordCloudData): string {
+    const { title, time, words } = data;
+    const lines = words.slice(0, TextRenderer.MAX_WORDS).map(([word, count], index) => `${index + 1}. ${word} (${Math.round(count).toLocaleString()})`);
+    return [this.formatHeader(title, time, `词数: ${words.length}`), ...lines].join('\n');
+  }
+}
@@ -0,0 +1,67 @@
+import { Config } from './index';
+
+/** 定义内置主题的名称。 */
+export type ThemeName = 'light' | 'dark' | 'contrast';
+
+/**
+ * @interface Theme
+ * @description 定义渲染卡片时使用的主题，`variables` 的键为不带 `--` 前缀的 CSS 变量名。
+ */
+export interface Theme {
+  variables: Record<string, string>;
+  background?: string;
+  fontFamily?: string;
+}
+
+/** 卡片默认使用的字体。 */
+export const DEFAULT_FONT = `-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif`;
+
+/** 内置主题预设，包含卡片使用的全部 CSS 变量。 */
+export const THEMES: Record<ThemeName, Record<string, string>> = {
+  light: {
+    'card-bg': '#fff', 'text-color': '#111827', 'header-color': '#111827',
+    'sub-text-color': '#6b7280', 'border-color': '#e5e7eb', 'accent-color': '#4a6ee0',
+    'chip-bg': '#f3f4f6', 'stripe-bg': '#f9fafb', 'gold': '#f59e0b',
+    'silver': '#9ca3af', 'bronze': '#a16207', 'up-color': '#16a34a', 'down-color': '#dc2626',
+  },
+  dark: {
+    'card-bg': '#1f2937', 'text-color': '#e5e7eb', 'header-color': '#f9fafb',
+    'sub-text-color': '#9ca3af', 'border-color': '#374151', 'accent-color': '#7c9cff',
+    'chip-bg': '#374151', 'stripe-bg': '#253042', 'gold': '#fbbf24',
+    'silver': '#d1d5db', 'bronze': '#d97706', 'up-color': '#4ade80', 'down-color': '#f87171',
+  },
+  contrast: {
+    'card-bg': '#000', 'text-color': '#fff', 'header-color': '#fff',
+    'sub-text-color': '#e5e7eb', 'border-color': '#fff', 'accent-color': '#ffd400',
+    'chip-bg': '#1f1f1f', 'stripe-bg': '#141414', 'gold': '#ffd400',
+    'silver': '#fff', 'bronze': '#ff9d00', 'up-color': '#00ff66', 'down-color': '#ff5c5c',
+  },
+};
+
+/**
+ * @function resolveTheme
+ * @description 按“内置主题 → 全局变量 → 群组配置”的顺序合并出指定群组使用的主题。
+ * @param config - 插件的配置对象。
+ * @param guildId - （可选）群组 ID，未指定时仅使用全局主题。
+ * @returns 合并后的主题。
+ */
+export function resolveTheme(config: Config, guildId?: string): Theme {
+  const guild = guildId ? config.guildThemes?.find(item => item.guildId === guildId) : undefined;
+  return {
+    variables: { ...THEMES[guild?.theme || config.theme] ?? THEMES.light, ...config.themeVariables, ...guild?.variables },
+    background: guild?.background || config.themeBackground || undefined,
+    fontFamily: guild?.fontFamily || config.themeFont || undefined,
+  };
+}
+
+/**
+ * @function themeToCss
+ * @description 将主题转换为 HTML 卡片使用的 CSS。
+ * @param theme - 主题。
+ * @returns CSS 字符串。
+ */
+export function themeToCss(theme: Theme): string {
+  const variables = Object.entries(theme.variables).map(([key, value]) => `--${key}: ${value};`).join(' ');
+  const background = theme.background ? `.container { background-image: url(${JSON.stringify(theme.background)}); background-size: cover; background-position: center; }` : '';
+  return `:root { ${variables} } body { font-family: ${theme.fontFamily || DEFAULT_FONT}; } ${background}`;
+}
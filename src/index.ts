@@ -1,9 +1,24 @@
-import { Context, Schema, Session, h } from 'koishi';
+import { Context, Dict, Schema, Session, h } from 'koishi';
 import { Collector } from './Collector';
 import { Stat } from './Stat';
 import { WhoAt } from './WhoAt';
 import { Data } from './Data';
 import { Analyse } from './Analyse';
+import { Subscribe } from './Subscribe';
+import { Identity, matchAccounts, matchPlatform, resolveLinkedAccounts } from './Identity';
+import { ChatAnalyse } from './Service';
+import { Dashboard } from './Dashboard';
+import { Api } from './Api';
+import { Metrics } from './Metrics';
+import { Privacy } from './Privacy';
+import { ThemeName } from './Theme';
+
+export * from './Service';
+export type { ListRenderData, LineChartData, HeatmapData, GraphData, RenderOptions } from './Renderer';
+export type { Theme, ThemeName } from './Theme';
+export type { WordCloudData } from './Analyse';
+export type { ChannelItem, DashboardQuery } from './Dashboard';
+export type { ClearOptions } from './Data';
 
 /** @name 插件使用说明 */
 export const usage = `
@@ -20,7 +35,10 @@ export const usage = `
 `;
 
 export const name = 'chat-analyse';
-export const using = ['database', 'puppeteer', 'cron'];
+export const inject = {
+  required: ['database', 'cron'],
+  optional: ['puppeteer'],
+};
 
 /**
  * @interface Config
@@ -28,16 +46,36 @@ export const using = ['database', 'puppeteer', 'cron'];
  */
 export interface Config {
   enableListener: boolean;
+  enableJournal: boolean;
+  legacyPlatform: string;
+  channelMode: 'blacklist' | 'whitelist';
+  channelList: string[];
+  enableOptOut: boolean;
+  enableMyData: boolean;
+  anonymiseSalt: string;
   enableCmdStat: boolean;
   enableMsgStat: boolean;
   enableRankStat: boolean;
+  enableRecallStat: boolean;
   enableActivity: boolean;
   enableOriRecord: boolean;
   enableWhoAt: boolean;
+  enableInteraction: boolean;
   enableDataIO: boolean;
+  enableSubscribe: boolean;
+  enableConsole: boolean;
+  enableApi: boolean;
+  renderMode: 'image' | 'text';
+  renderBackend: 'puppeteer' | 'resvg';
+  textFallback: boolean;
+  apiPath: string;
+  apiToken: string;
   atRetentionDays: number;
   rankRetentionDays: number;
+  rankHourlyDays: number;
   enableWordCloud: boolean;
+  enableTrend: boolean;
+  enableWordRank: boolean;
   maxWords: number;
   cacheRetentionDays: number;
   enableSimiActivity: boolean;
@@ -51,27 +89,81 @@ export interface Config {
   fontFamily: string;
   maskImage: string;
   excludeWords: string;
+  enableStopWords: boolean;
+  dictFiles: string[];
+  theme: ThemeName;
+  themeVariables: Dict<string>;
+  themeBackground: string;
+  themeFont: string;
+  guildThemes: {
+    guildId: string;
+    theme?: ThemeName;
+    variables?: Dict<string>;
+    background?: string;
+    fontFamily?: string;
+  }[];
+  enableAvatar: boolean;
+  nameDisplay: 'recorded' | 'nickname' | 'username';
+  profileCacheHours: number;
 }
 
+/** @description 卡片主题的可选项 */
+const themeSchema = Schema.union([
+  Schema.const('light').description('浅色'),
+  Schema.const('dark').description('深色'),
+  Schema.const('contrast').description('高对比度'),
+]);
+
 /** @description 插件的配置项定义 */
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     enableListener: Schema.boolean().default(true).description('启用消息监听'),
+    enableJournal: Schema.boolean().default(false).description('启用写入日志'),
+    legacyPlatform: Schema.string().description('旧记录所属平台'),
     enableDataIO: Schema.boolean().default(true).description('启用数据管理'),
+    enableSubscribe: Schema.boolean().default(false).description('启用定时推送'),
+    enableConsole: Schema.boolean().default(true).description('启用控制台页面'),
+    enableApi: Schema.boolean().default(false).description('启用 HTTP 接口'),
+    renderMode: Schema.union([
+      Schema.const('image').description('图片'),
+      Schema.const('text').description('文本'),
+    ]).default('image').description('输出模式'),
+    renderBackend: Schema.union([
+      Schema.const('puppeteer').description('浏览器'),
+      Schema.const('resvg').description('SVG'),
+    ]).default('puppeteer').description('图片渲染方式'),
+    textFallback: Schema.boolean().default(true).description('渲染失败时输出文本'),
+    apiPath: Schema.string().default('/chat-analyse').description('接口路径'),
+    apiToken: Schema.string().role('secret').description('接口令牌'),
   }).description('杂项配置'),
+  Schema.object({
+    channelMode: Schema.union([
+      Schema.const('blacklist').description('黑名单'),
+      Schema.const('whitelist').description('白名单'),
+    ]).default('blacklist').description('频道过滤模式'),
+    channelList: Schema.array(Schema.string()).role('table').default([]).description('频道列表'),
+    enableOptOut: Schema.boolean().default(true).description('启用退出记录'),
+    enableMyData: Schema.boolean().default(true).description('启用数据导出'),
+    anonymiseSalt: Schema.string().role('secret').description('匿名化盐值'),
+  }).description('隐私配置'),
   Schema.object({
     enableCmdStat: Schema.boolean().default(true).description('启用命令统计'),
     enableMsgStat: Schema.boolean().default(true).description('启用消息统计'),
     enableActivity: Schema.boolean().default(true).description('启用活跃统计'),
     enableSimiActivity: Schema.boolean().default(true).description('启用活跃比较'),
     enableRankStat: Schema.boolean().default(true).description('启用发言排行'),
+    enableRecallStat: Schema.boolean().default(true).description('启用撤回排行'),
     enableWhoAt: Schema.boolean().default(true).description('启用提及记录'),
+    enableInteraction: Schema.boolean().default(true).description('启用互动关系'),
     rankRetentionDays: Schema.number().min(0).default(365).description('排行保留天数'),
+    rankHourlyDays: Schema.number().min(0).default(30).description('排行按小时保留天数'),
     atRetentionDays: Schema.number().min(0).default(3).description('提及保留天数'),
   }).description('基础分析配置'),
   Schema.object({
     enableOriRecord: Schema.boolean().default(true).description('启用原始记录'),
     enableWordCloud: Schema.boolean().default(true).description('启用词云生成'),
+    enableTrend: Schema.boolean().default(true).description('启用关键词趋势'),
+    enableWordRank: Schema.boolean().default(true).description('启用关键词排行'),
     enableAutoBackup: Schema.boolean().default(true).description('启用自动归档'),
     cacheRetentionDays: Schema.number().min(0).default(7).description('记录保留天数'),
   }).description('高级分析配置'),
@@ -86,12 +178,36 @@ export const Config: Schema<Config> = Schema.intersect([
     fontFamily: Schema.string().default('"Noto Sans CJK SC", Arial, sans-serif').description('词云字体'),
     maskImage: Schema.string().role('link').description('蒙版图片'),
     excludeWords: Schema.string().role('textarea').default('').description('屏蔽词'),
+    enableStopWords: Schema.boolean().default(true).description('启用内置停用词'),
+    dictFiles: Schema.array(Schema.string()).role('table').default([]).description('自定义词典文件'),
   }).description('词云生成配置'),
+  Schema.object({
+    theme: themeSchema.default('light').description('卡片主题'),
+    themeVariables: Schema.dict(String).role('table').default({}).description('主题变量'),
+    themeBackground: Schema.string().role('link').description('背景图片'),
+    themeFont: Schema.string().description('卡片字体'),
+    guildThemes: Schema.array(Schema.object({
+      guildId: Schema.string().required().description('群组 ID'),
+      theme: themeSchema.description('卡片主题'),
+      variables: Schema.dict(String).role('table').default({}).description('主题变量'),
+      background: Schema.string().role('link').description('背景图片'),
+      fontFamily: Schema.string().description('卡片字体'),
+    })).default([]).description('群组主题'),
+  }).description('主题配置'),
+  Schema.object({
+    enableAvatar: Schema.boolean().default(false).description('显示用户头像'),
+    nameDisplay: Schema.union([
+      Schema.const('recorded').description('记录名称'),
+      Schema.const('nickname').description('群昵称'),
+      Schema.const('username').description('用户名'),
+    ]).default('recorded').description('名称显示方式'),
+    profileCacheHours: Schema.number().min(0).default(24).description('资料缓存小时数'),
+  }).description('资料配置'),
 ]);
 
 /**
  * @private @method parseQueryScope
- * @description 解析命令选项，转换为包含 UIDs 和描述性信息的统一查询范围对象。
+ * @description 解析命令选项，转换为包含 UIDs 和描述性信息的统一查询范围对象。指定用户时包含其所有关联账号。
  * @param session - 当前会话对象。
  * @param options - 命令选项。
  * @returns 包含 uids、错误或范围描述的查询范围对象。
@@ -102,10 +218,15 @@ export async function parseQueryScope(ctx: Context, session: Session, options: {
     if (!options.all && !scopeDesc.guildId && !scopeDesc.userId) scopeDesc.guildId = session.guildId || session.channelId;
     if (!options.all && !scopeDesc.guildId && !scopeDesc.userId) return { error: '请指定查询范围', scopeDesc };
 
+    if (!scopeDesc.guildId && !scopeDesc.userId) return { uids: undefined, scopeDesc };
     const query: any = {};
     if (scopeDesc.guildId) query.channelId = scopeDesc.guildId;
-    if (scopeDesc.userId) query.userId = scopeDesc.userId;
-    if (Object.keys(query).length === 0) return { uids: undefined, scopeDesc };
+    if (scopeDesc.userId) {
+      const accounts = await resolveLinkedAccounts(ctx, session.platform, scopeDesc.userId);
+      query.$or = matchAccounts(accounts);
+    } else {
+      query.platform = matchPlatform(session.platform);
+    }
 
     const users = await ctx.database.get('analyse_user', query, ['uid']);
     if (users.length === 0) return { error: '暂无统计数据', scopeDesc };
@@ -154,13 +275,34 @@ export async function generateTitle(ctx: Context, scopeDesc: { guildId?: string,
  * @param config - 用户配置对象。
  */
 export function apply(ctx: Context, config: Config) {
-  if (config.enableListener) new Collector(ctx, config);
+  const metrics = new Metrics(ctx);
+  const privacy = new Privacy(ctx, config);
+  if (config.enableListener) new Collector(ctx, config, metrics, privacy);
 
   const analyse = ctx.command('analyse', '数据分析');
+  metrics.setRootCommand(analyse);
+  if (config.enableOptOut || config.enableMyData) privacy.registerCommands(analyse);
+  new Identity(ctx, config).registerCommands(analyse);
 
   // 动态注册功能模块
-  new Stat(ctx, config).registerCommands(analyse);
+  const stat = new Stat(ctx, config, metrics);
+  stat.registerCommands(analyse);
   if (config.enableWhoAt) new WhoAt(ctx, config).registerCommand(analyse);
-  if (config.enableDataIO) new Data(ctx, config).registerCommands(analyse);
-  if (config.enableWordCloud || config.enableSimiActivity) new Analyse(ctx, config).registerCommands(analyse);
+  let data: Data;
+  if (config.enableDataIO) {
+    data = new Data(ctx, config);
+    data.registerCommands(analyse);
+  }
+  let analyser: Analyse;
+  if (config.enableWordCloud || config.enableSimiActivity || config.enableTrend || config.enableWordRank) {
+    analyser = new Analyse(ctx, config, metrics);
+    analyser.registerCommands(analyse);
+  }
+  if (config.enableSubscribe) new Subscribe(ctx, config).registerCommands(analyse);
+
+  // 向其他插件提供数据查询服务
+  const service = new ChatAnalyse(ctx, config, stat, metrics, analyser);
+  ctx.set('chatAnalyse', service);
+  if (config.enableConsole) new Dashboard(ctx, service, data);
+  if (config.enableApi) new Api(ctx, config, service);
 }
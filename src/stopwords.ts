@@ -0,0 +1,20 @@
+/** 内置的中文停用词表，以空白分隔，收录常见的代词、助词、连词、语气词及聊天中的无意义口头语。 */
+export const stopWordList = `
+的 了 着 过 地 得 之 所 和 与 及 或 而 且 但 但是 可是 然而 而且 并且 或者 还是 要么 不过 只是
+因为 所以 因此 于是 如果 假如 要是 即使 即便 虽然 尽管 不管 无论 只要 只有 除非 既然 以便 以免 为了
+我 你 他 她 它 我们 你们 他们 她们 它们 咱 咱们 自己 别人 人家 大家 大伙 各位 您 俺 本人
+这 那 这个 那个 这些 那些 这里 那里 这儿 那儿 这边 那边 这样 那样 这么 那么 这种 那种 这次 那次 这时 那时
+哪 哪个 哪些 哪里 哪儿 哪边 谁 什么 怎么 怎样 怎么样 为什么 为啥 多少 几 几个 如何 啥 咋 咋样
+是 不是 有 没有 没 在 不在 会 不会 能 不能 可以 可能 应该 要 不要 想 需要 得到 觉得 感觉 知道 看到 看看 好像 似乎
+就 都 也 还 又 再 才 已 已经 曾 曾经 正在 刚 刚才 刚刚 马上 立刻 一直 总是 常常 经常 往往 偶尔 终于 果然 居然 竟然
+很 太 挺 非常 十分 特别 比较 更 最 极 越 越来越 稍微 有点 有些 一点 一些 一下 一样 一起 一般 一定 一直 一个 一种 一次
+不 没 别 甭 非 无 莫 未 否
+把 被 让 给 叫 对 对于 关于 向 往 从 自 自从 到 于 以 按 按照 根据 通过 经过 随着 除了 跟 同 比 像 为 替 由 由于 朝
+上 下 里 外 前 后 中 内 间 左 右 旁 边 之前 之后 以前 以后 以上 以下 之间 之中 当中 其中 其他 其它 其余 另外 另
+啊 呀 吧 呢 吗 嘛 哦 噢 喔 哈 哈哈 哈哈哈 哈哈哈哈 呵 呵呵 嘿 嘿嘿 嗯 嗯嗯 唉 哎 哎呀 哎哟 诶 欸 啦 咯 喽 呗 罢了 而已 嘞 哇 呜 呜呜 嘻嘻
+然后 接着 其实 确实 反正 总之 毕竟 难道 究竟 到底 简直 几乎 大概 也许 或许 恐怕 好在 幸亏 原来 本来 当然 其次 首先 最后
+现在 今天 明天 昨天 今年 明年 去年 时候 时间 一会 一会儿 有时 有时候 平时 每次 每天 之类 等等 等 啥的 东西 事情
+还有 以及 还要 只要 只能 可能是 就是 也是 还是 都是 不是 而是 真是 就会 就要 就能 不会 不用 不必 没事 没用
+个 们 些 点 种 样 次 下 位 把 条 件 本 只 回 遍 番
+好 好的 行 对 对的 是的 没错 不错 可以 算了 好吧 行吧 是吗 真的 真的吗 然后呢 所以呢
+`;